@@ -0,0 +1,236 @@
+/**
+ * Custom request context fields (tenant, user, account, cohort, ...).
+ *
+ * Fields live in the request's AsyncLocalStorage store next to the correlation ID:
+ * - observabilityPlugin extracts configured fields from incoming headers or W3C Baggage
+ * - setContextField() sets them from your own code (e.g. after authentication)
+ * - every log record includes them
+ * - the request's OTEL baggage holds only the allow-listed (`propagate: true`) fields, so
+ *   trace propagation forwards them and nothing else; createHttpClient also sends their
+ *   configured header
+ * - fields with a `spanAttribute` are set on the request and client spans
+ *
+ * Fields that are not configured are still logged, but never leave the process.
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     contextFields: {
+ *       tenantId: { header: 'x-tenant-id', propagate: true, spanAttribute: 'tenant.id' },
+ *       userId: { header: 'x-user-id' },
+ *     },
+ *   });
+ *
+ *   setContextField('cohort', flags.cohort);
+ *
+ * Add your own fields by augmenting ContextFields:
+ *   declare module '@commerceiq/neoiq-node-foundation' {
+ *     interface ContextFields {
+ *       region?: string;
+ *     }
+ *   }
+ */
+
+import { Attributes, Baggage, BaggageEntry, Context, propagation } from '@opentelemetry/api';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Known context fields. Values are strings so they can travel as baggage.
+ */
+export interface ContextFields {
+  tenantId?: string;
+  userId?: string;
+  accountId?: string;
+  retailerId?: string;
+  cohort?: string;
+}
+
+export type ContextFieldName = keyof ContextFields & string;
+
+export interface ContextFieldConfig {
+  /**
+   * Incoming header the field is read from, and outgoing header it is forwarded in
+   * when `propagate` is on (e.g. 'x-tenant-id').
+   */
+  header?: string;
+
+  /**
+   * W3C Baggage key (default: the field name). Read when the header is absent.
+   */
+  baggageKey?: string;
+
+  /**
+   * Forward the field on outbound calls made with createHttpClient (default: false).
+   */
+  propagate?: boolean;
+
+  /**
+   * Span attribute name to set the field as (default: not set on spans).
+   */
+  spanAttribute?: string;
+
+  /**
+   * Include the field in log records (default: true).
+   */
+  log?: boolean;
+}
+
+export type ContextFieldsOptions = { [K in ContextFieldName]?: ContextFieldConfig };
+
+/**
+ * Holder of the current fields: the request's AsyncLocalStorage store.
+ */
+export interface ContextFieldsHolder {
+  fields?: ContextFields;
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+let configs: [ContextFieldName, ContextFieldConfig][] = [];
+
+/**
+ * Install the field configuration. Called by init(); call again to replace it.
+ */
+export function configureContextFields(options: ContextFieldsOptions = {}): void {
+  configs = Object.entries(options) as [ContextFieldName, ContextFieldConfig][];
+}
+
+export function getContextFieldConfig(name: ContextFieldName): ContextFieldConfig | undefined {
+  return configs.find(([configured]) => configured === name)?.[1];
+}
+
+// -----------------------------------------------------------------------------
+// Incoming
+// -----------------------------------------------------------------------------
+
+/**
+ * Configured fields found in incoming headers, else in the baggage of `parentContext`.
+ */
+export function extractContextFields(
+  headers: Record<string, string | string[] | undefined>,
+  parentContext: Context
+): ContextFields {
+  const fields: Record<string, string> = {};
+  const baggage = propagation.getBaggage(parentContext);
+
+  for (const [name, config] of configs) {
+    const header = config.header ? headers[config.header.toLowerCase()] : undefined;
+    const value =
+      (Array.isArray(header) ? header[0] : header) ||
+      baggage?.getEntry(config.baggageKey ?? name)?.value;
+    if (value) fields[name] = value;
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Outgoing
+// -----------------------------------------------------------------------------
+
+/**
+ * `parentContext` with its baggage replaced by the allow-listed fields of `holder`.
+ * Incoming entries are dropped. The baggage reads `holder.fields` each time it is used,
+ * so fields set later with setContextField() are propagated too.
+ */
+export function withContextBaggage(parentContext: Context, holder: ContextFieldsHolder): Context {
+  return propagation.setBaggage(parentContext, new FieldsBaggage(holder));
+}
+
+/**
+ * Configured headers of the allow-listed fields. The fields travel as W3C Baggage
+ * through the active context (see withContextBaggage).
+ */
+export function outboundContextHeaders(fields: ContextFields | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!fields) return headers;
+
+  for (const [name, config] of configs) {
+    const value = fields[name];
+    if (config.propagate && config.header && value) headers[config.header.toLowerCase()] = value;
+  }
+
+  return headers;
+}
+
+/**
+ * Span attributes for the fields configured with a `spanAttribute`.
+ */
+export function contextSpanAttributes(fields: ContextFields | undefined): Attributes {
+  const attributes: Attributes = {};
+  if (!fields) return attributes;
+
+  for (const [name, config] of configs) {
+    const value = fields[name];
+    if (config.spanAttribute && value) attributes[config.spanAttribute] = value;
+  }
+
+  return attributes;
+}
+
+/**
+ * Fields to add to a log record (all set fields, except those configured with `log: false`).
+ */
+export function loggedContextFields(fields: ContextFields | undefined): ContextFields {
+  if (!fields) return {};
+
+  const logged: Record<string, unknown> = { ...fields };
+  for (const [name, config] of configs) {
+    if (config.log === false) delete logged[name];
+  }
+
+  return logged as ContextFields;
+}
+
+// -----------------------------------------------------------------------------
+// Baggage
+// -----------------------------------------------------------------------------
+
+/**
+ * Baggage built from the allow-listed fields of a holder when read. OTEL contexts are
+ * immutable, so a snapshot taken at the start of a request would miss later fields.
+ */
+class FieldsBaggage implements Baggage {
+  constructor(private readonly holder: ContextFieldsHolder) {}
+
+  getEntry(key: string): BaggageEntry | undefined {
+    return this.snapshot().getEntry(key);
+  }
+
+  getAllEntries(): [string, BaggageEntry][] {
+    return this.snapshot().getAllEntries();
+  }
+
+  setEntry(key: string, entry: BaggageEntry): Baggage {
+    return this.snapshot().setEntry(key, entry);
+  }
+
+  removeEntry(key: string): Baggage {
+    return this.snapshot().removeEntry(key);
+  }
+
+  removeEntries(...keys: string[]): Baggage {
+    return this.snapshot().removeEntries(...keys);
+  }
+
+  clear(): Baggage {
+    return this.snapshot().clear();
+  }
+
+  private snapshot(): Baggage {
+    const entries: Record<string, BaggageEntry> = {};
+    const fields = this.holder.fields ?? {};
+
+    for (const [name, config] of configs) {
+      const value = fields[name];
+      if (config.propagate && value) entries[config.baggageKey ?? name] = { value };
+    }
+
+    return propagation.createBaggage(entries);
+  }
+}
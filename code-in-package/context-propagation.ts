@@ -0,0 +1,232 @@
+/**
+ * Context propagation for work outside the request path: background jobs, timers and
+ * message queues.
+ *
+ * - withSpan(): run a function in a new active span, ended (and marked as failed) for you
+ * - bindContext(): carry the current trace context and request context into a callback
+ *   that runs later (timers, event emitters, job runners with their own async scope)
+ * - injectContext() / extractContext(): correlation ID, traceparent, baggage and allow-listed
+ *   context fields as a plain object for message headers (SQS attributes, Kafka headers,
+ *   BullMQ job data)
+ * - withConsumerSpan(): handle a message in a CONSUMER span linked to the producer, with
+ *   the producer's correlation ID and context fields restored for logs and outbound calls
+ *
+ * Usage:
+ *   // Producer
+ *   await withSpan('report.enqueue', async () => {
+ *     await queue.add('generate', { reportId, otel: injectContext() });
+ *   }, { kind: SpanKind.PRODUCER });
+ *
+ *   // Consumer
+ *   worker.process(async (job) =>
+ *     withConsumerSpan('report.generate', job.data.otel, async () => {
+ *       logger.info({ reportId: job.data.reportId }, 'Generating report');
+ *     })
+ *   );
+ */
+
+import {
+  Attributes,
+  Context,
+  Link,
+  ROOT_CONTEXT,
+  Span,
+  SpanContext,
+  SpanKind,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { randomUUID } from 'crypto';
+import { als, getRequestContext, getTracer } from './observability-index';
+import {
+  ContextFields,
+  contextSpanAttributes,
+  extractContextFields,
+  outboundContextHeaders,
+  withContextBaggage,
+} from './context-fields';
+import { runInSpan } from './traced';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface WithSpanOptions {
+  /**
+   * Span kind (default: INTERNAL). Use PRODUCER around injectContext() for a send.
+   */
+  kind?: SpanKind;
+  attributes?: Attributes;
+  links?: Link[];
+
+  /**
+   * Start a new trace instead of a child of the active span (default: false).
+   */
+  root?: boolean;
+}
+
+export interface ConsumerSpanOptions {
+  attributes?: Attributes;
+
+  /**
+   * Make the span a child of the producer span instead of the root of a new trace
+   * linked to it (default: false). Linking keeps long-lived or fan-in consumers out of
+   * the producer's trace; a child suits a single message handled right away.
+   */
+  parent?: boolean;
+}
+
+/**
+ * Propagation headers for a message: traceparent, tracestate, baggage, x-request-id and
+ * the headers of allow-listed context fields.
+ */
+export type MessageContext = Record<string, string>;
+
+export interface ExtractedContext {
+  /**
+   * OTEL context carrying the producer span and baggage.
+   */
+  context: Context;
+
+  /**
+   * The producer span, if the carrier had a valid traceparent.
+   */
+  spanContext?: SpanContext;
+  correlationId?: string;
+  fields: ContextFields;
+}
+
+// -----------------------------------------------------------------------------
+// Spans
+// -----------------------------------------------------------------------------
+
+/**
+ * Run `fn` in a new active span. The span ends when `fn` returns or its promise settles;
+ * a thrown error or rejection is recorded (redacted) and sets the ERROR status.
+ * For wrapping a whole function or method, see traced() and @Traced().
+ *
+ * @example
+ *   const rows = await withSpan('report.aggregate', async (span) => {
+ *     span.setAttribute('report.id', reportId);
+ *     return aggregate(reportId);
+ *   });
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T, options: WithSpanOptions = {}): T {
+  const { kind = SpanKind.INTERNAL, attributes, links, root } = options;
+  return getTracer().startActiveSpan(name, { kind, attributes, links, root }, (span) =>
+    runInSpan(span, fn)
+  );
+}
+
+/**
+ * Handle a message in a CONSUMER span linked to (or, with `parent`, a child of) the
+ * producer span in `carrier`. The producer's correlation ID (else a new one) and context
+ * fields are restored for logs and outbound calls made while handling it.
+ */
+export function withConsumerSpan<T>(
+  name: string,
+  carrier: Record<string, unknown> | undefined,
+  fn: (span: Span) => T,
+  options: ConsumerSpanOptions = {}
+): T {
+  const { context: producerContext, spanContext, correlationId, fields } = extractContext(carrier);
+  const asChild = options.parent === true && spanContext !== undefined;
+
+  const span = getTracer().startSpan(
+    name,
+    {
+      kind: SpanKind.CONSUMER,
+      attributes: { ...options.attributes, ...contextSpanAttributes(fields) },
+      links: spanContext && !asChild ? [{ context: spanContext }] : [],
+      root: !asChild,
+    },
+    producerContext
+  );
+  const { traceId, spanId } = span.spanContext();
+  const store = { correlationId: correlationId || randomUUID(), traceId, spanId, fields };
+
+  return context.with(withContextBaggage(trace.setSpan(producerContext, span), store), () =>
+    als.run(store, () => runInSpan(span, fn))
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Callbacks
+// -----------------------------------------------------------------------------
+
+/**
+ * Bind `fn` to the current trace context and request context, so it runs in them
+ * wherever it is called from later.
+ *
+ * @example
+ *   setTimeout(bindContext(() => logger.info('Still the same request')), 1000);
+ */
+export function bindContext<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const otelContext = context.active();
+  const store = als.getStore();
+
+  return (...args: A) =>
+    context.with(otelContext, () =>
+      store ? als.run(store, () => fn(...args)) : als.exit(() => fn(...args))
+    );
+}
+
+// -----------------------------------------------------------------------------
+// Carriers
+// -----------------------------------------------------------------------------
+
+/**
+ * Propagation headers for the current context, to put on an outgoing message.
+ * Inside a request or consumer span the baggage holds only the allow-listed context fields.
+ */
+export function injectContext(): MessageContext {
+  const carrier: Record<string, string> = {};
+  propagation.inject(context.active(), carrier);
+
+  const message: MessageContext = {};
+  if (carrier.traceparent) message.traceparent = carrier.traceparent;
+  if (carrier.tracestate) message.tracestate = carrier.tracestate;
+  if (carrier.baggage) message.baggage = carrier.baggage;
+
+  const reqCtx = getRequestContext();
+  if (reqCtx?.correlationId) message['x-request-id'] = reqCtx.correlationId;
+
+  return { ...message, ...outboundContextHeaders(reqCtx?.fields) };
+}
+
+/**
+ * Read propagation headers from a received message. Keys are matched case-insensitively;
+ * Buffer values (Kafka headers) and arrays are accepted.
+ */
+export function extractContext(carrier: Record<string, unknown> | undefined): ExtractedContext {
+  const headers = normalizeCarrier(carrier);
+  const extracted = propagation.extract(ROOT_CONTEXT, headers);
+  const spanContext = trace.getSpanContext(extracted);
+
+  return {
+    context: extracted,
+    spanContext: spanContext && trace.isSpanContextValid(spanContext) ? spanContext : undefined,
+    correlationId: headers['x-request-id'],
+    fields: extractContextFields(headers, extracted),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function normalizeCarrier(carrier: Record<string, unknown> | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const [key, raw] of Object.entries(carrier ?? {})) {
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (typeof value === 'string') {
+      headers[key.toLowerCase()] = value;
+    } else if (Buffer.isBuffer(value)) {
+      headers[key.toLowerCase()] = value.toString('utf8');
+    }
+  }
+
+  return headers;
+}
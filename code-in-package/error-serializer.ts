@@ -0,0 +1,117 @@
+/**
+ * Error serialization for logs.
+ *
+ * Used by the foundation logger for the `err` and `error` fields (and for errors
+ * passed as the first argument):
+ * - type, message, stack and own enumerable properties (e.g. `code`)
+ * - `cause` chains and AggregateError `errors`, recursively
+ * - Axios errors summarized to method, URL, status and a truncated response body
+ *   instead of the full config/request/response objects
+ *
+ * Usage:
+ *   logger.error(err, 'Failed to create report');
+ *   logger.error({ err, reportId }, 'Failed to create report');
+ */
+
+import { AxiosError, isAxiosError } from 'axios';
+import { redactString, redactUrl } from './redaction';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface SerializedError {
+  type: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [key: string]: unknown;
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+// Nested causes / aggregate members followed before giving up
+const MAX_DEPTH = 5;
+
+// Response body characters kept for Axios errors
+const MAX_RESPONSE_BODY = 1000;
+
+// Own properties handled explicitly (or too large to log) rather than copied
+const SKIPPED_KEYS = new Set(['cause', 'errors', 'config', 'request', 'response', 'toJSON']);
+
+// -----------------------------------------------------------------------------
+// Serializer
+// -----------------------------------------------------------------------------
+
+/**
+ * Plain-object form of an error for structured logs. Non-errors are returned unchanged.
+ */
+export function serializeError(value: unknown): unknown {
+  return serialize(value, 0, new Set());
+}
+
+function serialize(value: unknown, depth: number, seen: Set<unknown>): unknown {
+  if (!(value instanceof Error)) return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  const result: SerializedError = {
+    type: value.constructor?.name || value.name,
+    message: value.message,
+    stack: value.stack,
+  };
+
+  for (const [key, prop] of Object.entries(value)) {
+    if (!SKIPPED_KEYS.has(key) && typeof prop !== 'function') result[key] = prop;
+  }
+
+  if (isAxiosError(value)) {
+    result.http = summarizeAxiosError(value);
+  }
+
+  if (depth < MAX_DEPTH) {
+    if (value.cause !== undefined) {
+      result.cause = serialize(value.cause, depth + 1, seen);
+    }
+    if (value instanceof AggregateError) {
+      result.errors = value.errors.map((error) => serialize(error, depth + 1, seen));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The parts of an Axios error worth logging.
+ */
+function summarizeAxiosError(error: AxiosError): Record<string, unknown> {
+  const { config, response } = error;
+  const url = config ? `${config.baseURL || ''}${config.url || ''}` : undefined;
+
+  return {
+    method: config?.method?.toUpperCase(),
+    url: url && redactUrl(url),
+    status: response?.status,
+    statusText: response?.statusText,
+    responseBody: response ? truncatedBody(response.data) : undefined,
+  };
+}
+
+function truncatedBody(data: unknown): string | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+
+  let body: string;
+  try {
+    body = typeof data === 'string' ? data : JSON.stringify(data);
+  } catch {
+    return '[Unserializable]';
+  }
+  if (body === undefined) return undefined;
+
+  return redactString(
+    body.length > MAX_RESPONSE_BODY ? `${body.slice(0, MAX_RESPONSE_BODY)}…[truncated]` : body
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * Telemetry exporters.
+ *
+ * Builds the trace, metric and log exporters for `init({ exporter })`:
+ * - 'grpc': OTLP over gRPC (default, port 4317)
+ * - 'http/protobuf' / 'http/json': OTLP over HTTP (port 4318, /v1/traces, /v1/metrics, /v1/logs)
+ * - 'console': human-readable output on stdout
+ * - 'file': OTLP JSON lines in traces.jsonl, metrics.jsonl and logs.jsonl (e.g. for CI assertions)
+ * - 'none': nothing is exported
+ *
+ * Standard environment variables:
+ *   OTEL_EXPORTER_OTLP_PROTOCOL: grpc | http/protobuf | http/json
+ *   OTEL_EXPORTER_OTLP_ENDPOINT: Base endpoint for both signals
+ *   OTEL_EXPORTER_OTLP_{TRACES,METRICS,LOGS}_ENDPOINT: Full per-signal URLs
+ *   OTEL_EXPORTER_OTLP_HEADERS (and per-signal variants): key=value,key2=value2
+ *   OTEL_EXPORTER_OTLP_COMPRESSION / OTEL_EXPORTER_OTLP_TIMEOUT
+ *   OTEL_EXPORTER_OTLP_CERTIFICATE / _CLIENT_KEY / _CLIENT_CERTIFICATE: PEM file paths
+ */
+
+import { createWriteStream, mkdirSync, readFileSync, WriteStream } from 'fs';
+import { join } from 'path';
+import { credentials, Metadata } from '@grpc/grpc-js';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { CompressionAlgorithm } from '@opentelemetry/otlp-exporter-base';
+import {
+  ISerializer,
+  JsonLogsSerializer,
+  JsonMetricsSerializer,
+  JsonTraceSerializer,
+} from '@opentelemetry/otlp-transformer';
+import { ConsoleSpanExporter, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { ConsoleMetricExporter, PushMetricExporter } from '@opentelemetry/sdk-metrics';
+import { ConsoleLogRecordExporter, LogRecordExporter } from '@opentelemetry/sdk-logs';
+import { OTLPTraceExporter as GrpcTraceExporter } from '@opentelemetry/exporter-trace-otlp-grpc';
+import { OTLPTraceExporter as HttpJsonTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPTraceExporter as HttpProtoTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto';
+import { OTLPMetricExporter as GrpcMetricExporter } from '@opentelemetry/exporter-metrics-otlp-grpc';
+import { OTLPMetricExporter as HttpJsonMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPMetricExporter as HttpProtoMetricExporter } from '@opentelemetry/exporter-metrics-otlp-proto';
+import { OTLPLogExporter as GrpcLogExporter } from '@opentelemetry/exporter-logs-otlp-grpc';
+import { OTLPLogExporter as HttpJsonLogExporter } from '@opentelemetry/exporter-logs-otlp-http';
+import { OTLPLogExporter as HttpProtoLogExporter } from '@opentelemetry/exporter-logs-otlp-proto';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ExporterProtocol = 'grpc' | 'http/protobuf' | 'http/json' | 'console' | 'file' | 'none';
+
+export interface ExporterOptions {
+  /**
+   * How telemetry leaves the process.
+   * Default: OTEL_EXPORTER_OTLP_PROTOCOL, else 'grpc'.
+   */
+  protocol?: ExporterProtocol;
+
+  /**
+   * Full traces URL, overriding the base endpoint (OTLP only).
+   */
+  tracesEndpoint?: string;
+
+  /**
+   * Full metrics URL, overriding the base endpoint (OTLP only).
+   */
+  metricsEndpoint?: string;
+
+  /**
+   * Full logs URL, overriding the base endpoint (OTLP only).
+   */
+  logsEndpoint?: string;
+
+  /**
+   * Headers sent with every export, e.g. an auth token (OTLP only).
+   * Merged over OTEL_EXPORTER_OTLP_HEADERS.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Payload compression (OTLP only, default: none).
+   */
+  compression?: 'gzip' | 'none';
+
+  /**
+   * Export request timeout in ms (OTLP only, default: 10000).
+   */
+  timeoutMs?: number;
+
+  /**
+   * PEM files for TLS (OTLP only). Default: OTEL_EXPORTER_OTLP_CERTIFICATE,
+   * OTEL_EXPORTER_OTLP_CLIENT_CERTIFICATE and OTEL_EXPORTER_OTLP_CLIENT_KEY.
+   */
+  tls?: {
+    caFile?: string;
+    certFile?: string;
+    keyFile?: string;
+  };
+
+  /**
+   * Directory for traces.jsonl, metrics.jsonl and logs.jsonl ('file' only, default: 'telemetry').
+   */
+  directory?: string;
+}
+
+export interface Exporters {
+  protocol: ExporterProtocol;
+
+  /**
+   * Where telemetry goes, for the startup log.
+   */
+  target: string;
+
+  traceExporter?: SpanExporter;
+  metricExporter?: PushMetricExporter;
+  logExporter?: LogRecordExporter;
+}
+
+type Signal = 'traces' | 'metrics' | 'logs';
+
+// Default OTEL Collector (per Groundcover guide - Kubernetes internal)
+const DEFAULT_COLLECTOR_HOST = 'http://otel-stack-deployment-collector.observability.svc.cluster.local';
+
+const OTLP_PROTOCOLS: ExporterProtocol[] = ['grpc', 'http/protobuf', 'http/json'];
+
+// -----------------------------------------------------------------------------
+// Factory
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the exporters for the configured protocol. Called by init().
+ *
+ * @param endpoint - Base OTLP endpoint (InitOptions.otlpEndpoint)
+ */
+export function createExporters(options: ExporterOptions = {}, endpoint?: string): Exporters {
+  const protocol = options.protocol ?? protocolFromEnv() ?? 'grpc';
+
+  switch (protocol) {
+    case 'none':
+      return { protocol, target: 'none' };
+
+    case 'console':
+      return {
+        protocol,
+        target: 'stdout',
+        traceExporter: new ConsoleSpanExporter(),
+        metricExporter: new ConsoleMetricExporter(),
+        logExporter: new ConsoleLogRecordExporter(),
+      };
+
+    case 'file': {
+      const directory = options.directory ?? 'telemetry';
+      mkdirSync(directory, { recursive: true });
+      return {
+        protocol,
+        target: directory,
+        traceExporter: new JsonLinesFileExporter(join(directory, 'traces.jsonl'), JsonTraceSerializer),
+        metricExporter: new JsonLinesFileExporter(
+          join(directory, 'metrics.jsonl'),
+          JsonMetricsSerializer
+        ),
+        logExporter: new JsonLinesFileExporter(join(directory, 'logs.jsonl'), JsonLogsSerializer),
+      };
+    }
+
+    default:
+      return createOtlpExporters(protocol, options, endpoint);
+  }
+}
+
+function createOtlpExporters(
+  protocol: ExporterProtocol,
+  options: ExporterOptions,
+  endpoint: string | undefined
+): Exporters {
+  const tracesUrl = otlpUrl('traces', protocol, options.tracesEndpoint, endpoint);
+  const metricsUrl = otlpUrl('metrics', protocol, options.metricsEndpoint, endpoint);
+  const logsUrl = otlpUrl('logs', protocol, options.logsEndpoint, endpoint);
+  const tls = readTlsFiles(options.tls);
+  const common = {
+    timeoutMillis: options.timeoutMs,
+    compression: options.compression as CompressionAlgorithm | undefined,
+  };
+  const target = tracesUrl ?? process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? '';
+
+  if (protocol === 'grpc') {
+    const grpcOptions = {
+      ...common,
+      metadata: options.headers && toMetadata(options.headers),
+      credentials: tls && credentials.createSsl(tls.ca, tls.key, tls.cert),
+    };
+    return {
+      protocol,
+      target,
+      traceExporter: new GrpcTraceExporter({ ...grpcOptions, url: tracesUrl }),
+      metricExporter: new GrpcMetricExporter({ ...grpcOptions, url: metricsUrl }),
+      logExporter: new GrpcLogExporter({ ...grpcOptions, url: logsUrl }),
+    };
+  }
+
+  const httpOptions = {
+    ...common,
+    headers: options.headers,
+    httpAgentOptions: tls,
+  };
+  return protocol === 'http/protobuf'
+    ? {
+        protocol,
+        target,
+        traceExporter: new HttpProtoTraceExporter({ ...httpOptions, url: tracesUrl }),
+        metricExporter: new HttpProtoMetricExporter({ ...httpOptions, url: metricsUrl }),
+        logExporter: new HttpProtoLogExporter({ ...httpOptions, url: logsUrl }),
+      }
+    : {
+        protocol,
+        target,
+        traceExporter: new HttpJsonTraceExporter({ ...httpOptions, url: tracesUrl }),
+        metricExporter: new HttpJsonMetricExporter({ ...httpOptions, url: metricsUrl }),
+        logExporter: new HttpJsonLogExporter({ ...httpOptions, url: logsUrl }),
+      };
+}
+
+// -----------------------------------------------------------------------------
+// File Exporter
+// -----------------------------------------------------------------------------
+
+/**
+ * Appends each export batch as one OTLP JSON line, the format read by the
+ * collector's otlpjsonfile receiver.
+ */
+class JsonLinesFileExporter<T> {
+  private readonly stream: WriteStream;
+
+  constructor(
+    path: string,
+    private readonly serializer: ISerializer<T, unknown>
+  ) {
+    this.stream = createWriteStream(path, { flags: 'a' });
+  }
+
+  export(items: T, resultCallback: (result: ExportResult) => void): void {
+    const payload = this.serializer.serializeRequest(items);
+    if (!payload) {
+      resultCallback({ code: ExportResultCode.FAILED, error: new Error('Serialization failed') });
+      return;
+    }
+
+    this.stream.write(`${Buffer.from(payload).toString('utf8')}\n`, (error) => {
+      resultCallback(error ? { code: ExportResultCode.FAILED, error } : { code: ExportResultCode.SUCCESS });
+    });
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function protocolFromEnv(): ExporterProtocol | undefined {
+  const value = process.env.OTEL_EXPORTER_OTLP_PROTOCOL?.trim() as ExporterProtocol | undefined;
+  return value && OTLP_PROTOCOLS.includes(value) ? value : undefined;
+}
+
+/**
+ * Exporter URL for a signal, first set of: the signal's URL option, otlpEndpoint,
+ * OTEL_EXPORTER_OTLP_<SIGNAL>_ENDPOINT, OTEL_EXPORTER_OTLP_ENDPOINT, the cluster collector.
+ * Undefined when the per-signal variable applies, so the exporter reads it (a URL passed
+ * to the exporter would take precedence over it).
+ */
+function otlpUrl(
+  signal: Signal,
+  protocol: ExporterProtocol,
+  explicit: string | undefined,
+  endpoint: string | undefined
+): string | undefined {
+  if (explicit) return explicit;
+  if (!endpoint && process.env[`OTEL_EXPORTER_OTLP_${signal.toUpperCase()}_ENDPOINT`]) return undefined;
+
+  const base =
+    endpoint ||
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+    `${DEFAULT_COLLECTOR_HOST}:${protocol === 'grpc' ? 4317 : 4318}`;
+  return protocol === 'grpc' ? base : `${base.replace(/\/+$/, '')}/v1/${signal}`;
+}
+
+function readTlsFiles(
+  tls: ExporterOptions['tls'] = {}
+): { ca?: Buffer; cert?: Buffer; key?: Buffer } | undefined {
+  const caFile = tls.caFile ?? process.env.OTEL_EXPORTER_OTLP_CERTIFICATE;
+  const certFile = tls.certFile ?? process.env.OTEL_EXPORTER_OTLP_CLIENT_CERTIFICATE;
+  const keyFile = tls.keyFile ?? process.env.OTEL_EXPORTER_OTLP_CLIENT_KEY;
+  if (!caFile && !certFile && !keyFile) return undefined;
+
+  return {
+    ca: caFile ? readFileSync(caFile) : undefined,
+    cert: certFile ? readFileSync(certFile) : undefined,
+    key: keyFile ? readFileSync(keyFile) : undefined,
+  };
+}
+
+function toMetadata(headers: Record<string, string>): Metadata {
+  const metadata = new Metadata();
+  for (const [key, value] of Object.entries(headers)) {
+    metadata.set(key, value);
+  }
+  return metadata;
+}
@@ -0,0 +1,97 @@
+/**
+ * Retry backoff and Retry-After parsing tests.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError } from 'axios';
+import { BackoffOptions, computeBackoff, parseRetryAfter } from './http-client-backoff';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const error = new AxiosError('Service Unavailable', 'ERR_BAD_RESPONSE');
+
+function delays(options: BackoffOptions, attempts: number): number[] {
+  return Array.from({ length: attempts }, (_, i) => computeBackoff(i + 1, error, options));
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('computeBackoff', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('doubles exponential delays up to maxDelay', () => {
+    const options: BackoffOptions = { strategy: 'exponential', baseDelay: 100, maxDelay: 1000 };
+
+    assert.deepEqual(delays(options, 6), [100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it('keeps fixed delays at baseDelay', () => {
+    assert.deepEqual(delays({ strategy: 'fixed', baseDelay: 250, maxDelay: 1000 }, 3), [250, 250, 250]);
+  });
+
+  it('picks full-jitter delays between 0 and the capped exponential delay', () => {
+    const options: BackoffOptions = { strategy: 'full-jitter', baseDelay: 100, maxDelay: 300 };
+
+    mock.method(Math, 'random', () => 0.5);
+    assert.deepEqual(delays(options, 4), [50, 100, 150, 150]);
+
+    mock.method(Math, 'random', () => 0);
+    assert.equal(computeBackoff(3, error, options), 0);
+  });
+
+  it('picks decorrelated-jitter delays between baseDelay and 3x the previous delay', () => {
+    const options: BackoffOptions = { strategy: 'decorrelated-jitter', baseDelay: 100, maxDelay: 10000 };
+
+    mock.method(Math, 'random', () => 0);
+    assert.equal(computeBackoff(2, error, { ...options, previousDelay: 400 }), 100);
+
+    mock.method(Math, 'random', () => 0.999999);
+    assert.equal(computeBackoff(2, error, { ...options, previousDelay: 400 }), 1200);
+    assert.equal(computeBackoff(1, error, options), 300);
+    assert.equal(computeBackoff(5, error, { ...options, previousDelay: 8000 }), 10000);
+  });
+
+  it('passes attempt and error to a custom strategy and clamps its result', () => {
+    const strategy = mock.fn((attempt: number) => (attempt === 1 ? -50 : attempt * 1000));
+    const options: BackoffOptions = { strategy, baseDelay: 100, maxDelay: 2500 };
+
+    assert.deepEqual(delays(options, 3), [0, 2000, 2500]);
+    assert.deepEqual(strategy.mock.calls[1].arguments, [2, error]);
+  });
+
+  it('rounds to whole milliseconds', () => {
+    mock.method(Math, 'random', () => 0.3333);
+
+    assert.equal(computeBackoff(1, error, { strategy: 'full-jitter', baseDelay: 100, maxDelay: 1000 }), 33);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+  it('parses delay-seconds', () => {
+    assert.equal(parseRetryAfter('120', now), 120_000);
+    assert.equal(parseRetryAfter(' 0 ', now), 0);
+  });
+
+  it('parses an HTTP-date relative to now', () => {
+    assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now), 30_000);
+  });
+
+  it('returns 0 for an HTTP-date in the past', () => {
+    assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:00:00 GMT', now), 0);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    for (const value of [undefined, null, 120, '', '  ', '-5', '1.5', 'soon']) {
+      assert.equal(parseRetryAfter(value, now), undefined, `value ${JSON.stringify(value)}`);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Retry backoff strategies for the HTTP client.
+ *
+ * Strategies:
+ * - exponential: base * 2^(attempt - 1)
+ * - full-jitter: random delay between 0 and the exponential delay
+ * - decorrelated-jitter: random delay between base and 3x the previous delay
+ * - fixed: always base
+ * - custom: any (attempt, error) => delay function
+ *
+ * Every strategy is capped at maxDelay. Jitter keeps pods from retrying
+ * in lockstep against the same rate-limited dependency.
+ */
+
+import { AxiosError } from 'axios';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type BackoffStrategy =
+  | 'exponential'
+  | 'full-jitter'
+  | 'decorrelated-jitter'
+  | 'fixed'
+  | ((attempt: number, error: AxiosError) => number);
+
+export interface BackoffOptions {
+  /**
+   * Strategy used to compute the delay.
+   */
+  strategy: BackoffStrategy;
+
+  /**
+   * Base delay in milliseconds.
+   */
+  baseDelay: number;
+
+  /**
+   * Upper bound for any computed delay in milliseconds.
+   */
+  maxDelay: number;
+
+  /**
+   * Delay used before the previous attempt (decorrelated jitter only).
+   */
+  previousDelay?: number;
+}
+
+// -----------------------------------------------------------------------------
+// Backoff
+// -----------------------------------------------------------------------------
+
+/**
+ * Compute the delay before retry number `attempt` (1-based).
+ */
+export function computeBackoff(attempt: number, error: AxiosError, options: BackoffOptions): number {
+  const { strategy, baseDelay, maxDelay, previousDelay } = options;
+  const exponential = baseDelay * Math.pow(2, attempt - 1);
+
+  let delay: number;
+  switch (strategy) {
+    case 'exponential':
+      delay = exponential;
+      break;
+    case 'full-jitter':
+      delay = Math.random() * Math.min(maxDelay, exponential);
+      break;
+    case 'decorrelated-jitter': {
+      const upper = Math.max(baseDelay, (previousDelay ?? baseDelay) * 3);
+      delay = baseDelay + Math.random() * (upper - baseDelay);
+      break;
+    }
+    case 'fixed':
+      delay = baseDelay;
+      break;
+    default:
+      delay = strategy(attempt, error);
+  }
+
+  return Math.round(Math.max(0, Math.min(maxDelay, delay)));
+}
+
+// -----------------------------------------------------------------------------
+// Retry-After
+// -----------------------------------------------------------------------------
+
+/**
+ * Parse a Retry-After header into milliseconds from now.
+ * Supports both forms: delay-seconds ("120") and HTTP-date ("Wed, 21 Oct 2015 07:28:00 GMT").
+ * Returns undefined when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  // Date.parse also accepts values like '1.5' or '-5'; an HTTP-date names its month
+  const date = /[a-z]{3}/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+}
@@ -0,0 +1,132 @@
+/**
+ * Bulkhead queueing and rejection tests.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as tick } from 'timers/promises';
+import { Bulkhead, BulkheadRejectedError } from './http-client-bulkhead';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Acquire a slot and report whether it was granted before the next macrotask.
+ */
+function acquireTracked(bulkhead: Bulkhead): { granted: () => boolean; release: Promise<() => void> } {
+  let granted = false;
+  const release = bulkhead.acquire().then((release) => {
+    granted = true;
+    return release;
+  });
+  return { granted: () => granted, release };
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('Bulkhead', () => {
+  it('admits up to maxInFlight requests at once', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 2 });
+
+    const first = await bulkhead.acquire();
+    await bulkhead.acquire();
+    const third = acquireTracked(bulkhead);
+    await tick();
+
+    assert.equal(bulkhead.inFlight, 2);
+    assert.equal(bulkhead.queued, 1);
+    assert.equal(third.granted(), false);
+
+    first();
+    await third.release;
+  });
+
+  it('hands released slots to waiters in FIFO order', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1 });
+    const release = await bulkhead.acquire();
+    const order: string[] = [];
+
+    const first = bulkhead.acquire().then((next) => (order.push('first'), next));
+    const second = bulkhead.acquire().then((next) => (order.push('second'), next));
+
+    release();
+    (await first)();
+    (await second)();
+
+    assert.deepEqual(order, ['first', 'second']);
+    assert.equal(bulkhead.inFlight, 0);
+    assert.equal(bulkhead.queued, 0);
+  });
+
+  it('never exceeds maxInFlight while handing slots over', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1 });
+    const release = await bulkhead.acquire();
+    const waiter = acquireTracked(bulkhead);
+
+    release();
+    await tick();
+
+    assert.equal(waiter.granted(), true);
+    assert.equal(bulkhead.inFlight, 1);
+  });
+
+  it('ignores a second call of the same release function', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1 });
+    const release = await bulkhead.acquire();
+
+    release();
+    release();
+
+    assert.equal(bulkhead.inFlight, 0);
+    await bulkhead.acquire();
+    assert.equal(bulkhead.inFlight, 1);
+  });
+
+  it('rejects with queue_full when the queue is full', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1, maxQueue: 1 });
+    const release = await bulkhead.acquire();
+    const queued = bulkhead.acquire();
+
+    await assert.rejects(bulkhead.acquire(), (error: unknown) => {
+      assert.ok(error instanceof BulkheadRejectedError);
+      assert.equal(error.reason, 'queue_full');
+      assert.equal(error.code, 'EBULKHEAD');
+      assert.equal(error.targetService, 'svc');
+      return true;
+    });
+    assert.equal(bulkhead.queued, 1);
+
+    release();
+    await queued;
+  });
+
+  it('rejects with queue_timeout after waiting queueTimeout ms, and leaves the queue', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1, queueTimeout: 20 });
+    const release = await bulkhead.acquire();
+
+    await assert.rejects(bulkhead.acquire(), { name: 'BulkheadRejectedError', reason: 'queue_timeout' });
+    assert.equal(bulkhead.queued, 0);
+
+    release();
+    assert.equal(bulkhead.inFlight, 0);
+  });
+
+  it('does not time out a waiter that got a slot', async () => {
+    const bulkhead = new Bulkhead('svc', { maxInFlight: 1, queueTimeout: 20 });
+    const release = await bulkhead.acquire();
+    const waiter = bulkhead.acquire();
+
+    release();
+    const next = await waiter;
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    assert.equal(bulkhead.inFlight, 1);
+    next();
+    assert.equal(bulkhead.inFlight, 0);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Bulkhead (concurrency limiter) for the HTTP client.
+ *
+ * Caps in-flight requests per client. Calls beyond the limit wait in a bounded
+ * FIFO queue; they are rejected with BulkheadRejectedError when the queue is full
+ * or when they wait longer than the queue timeout.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface BulkheadOptions {
+  /**
+   * Maximum number of requests in flight at once (default: 100).
+   */
+  maxInFlight?: number;
+
+  /**
+   * Maximum number of requests waiting for a slot (default: 100).
+   */
+  maxQueue?: number;
+
+  /**
+   * Maximum time in ms a request waits for a slot (default: 5000).
+   */
+  queueTimeout?: number;
+}
+
+export type BulkheadRejectionReason = 'queue_full' | 'queue_timeout';
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  timer: NodeJS.Timeout;
+}
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+/**
+ * Thrown without making a network call when the bulkhead cannot admit a request.
+ */
+export class BulkheadRejectedError extends Error {
+  readonly code = 'EBULKHEAD';
+
+  constructor(
+    readonly targetService: string,
+    readonly reason: BulkheadRejectionReason
+  ) {
+    super(
+      reason === 'queue_full'
+        ? `Too many concurrent requests to ${targetService}: queue is full`
+        : `Timed out waiting for a free slot to ${targetService}`
+    );
+    this.name = 'BulkheadRejectedError';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Bulkhead
+// -----------------------------------------------------------------------------
+
+export class Bulkhead {
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private readonly maxInFlight: number;
+  private readonly maxQueue: number;
+  private readonly queueTimeout: number;
+
+  constructor(
+    private readonly targetService: string,
+    options: BulkheadOptions = {}
+  ) {
+    this.maxInFlight = options.maxInFlight ?? 100;
+    this.maxQueue = options.maxQueue ?? 100;
+    this.queueTimeout = options.queueTimeout ?? 5000;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a release function that must be called exactly once.
+   */
+  acquire(): Promise<() => void> {
+    if (this.active < this.maxInFlight) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new BulkheadRejectedError(this.targetService, 'queue_full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(new BulkheadRejectedError(this.targetService, 'queue_timeout'));
+        }, this.queueTimeout),
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  /**
+   * Requests currently holding a slot.
+   */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Requests waiting for a slot.
+   */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      // Hand the slot straight to the next waiter so in-flight never exceeds the limit
+      const next = this.queue.shift();
+      if (next) {
+        clearTimeout(next.timer);
+        next.resolve(this.createRelease());
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
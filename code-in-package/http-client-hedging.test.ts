@@ -0,0 +1,204 @@
+/**
+ * Request hedging tests: hedge timing, winner selection, cancellation and the latency tracker.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { HEDGE_CANCELLED, LatencyTracker, hedge, isHedgeCancellation } from './http-client-hedging';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+interface Attempt {
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Attempt function whose calls are settled by the test.
+ */
+function controlledAttempts() {
+  const attempts: Attempt[] = [];
+  const attempt = (signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => attempts.push({ signal, resolve, reject }));
+  return { attempts, attempt };
+}
+
+function hedgeOptions(overrides: Partial<Parameters<typeof hedge>[1]> = {}) {
+  return { delay: 10, maxHedges: 1, canHedge: () => true, onHedge: () => {}, ...overrides };
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('hedge', () => {
+  it('does not hedge a call that completes before the delay', async () => {
+    const onHedge = mock.fn();
+
+    const outcome = await hedge(async () => 'fast', hedgeOptions({ delay: 50, onHedge }));
+
+    assert.deepEqual(outcome, { result: 'fast', winner: 0, attempts: 1 });
+    assert.equal(onHedge.mock.callCount(), 0);
+  });
+
+  it('fires a hedge after the delay and resolves with the first success', async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const onHedge = mock.fn();
+    const outcome = hedge(attempt, hedgeOptions({ onHedge }));
+
+    await sleep(20);
+    assert.equal(attempts.length, 2);
+    assert.deepEqual(onHedge.mock.calls[0].arguments, [1]);
+
+    attempts[1].resolve('hedge');
+    assert.deepEqual(await outcome, { result: 'hedge', winner: 1, attempts: 2 });
+    assert.equal(attempts[0].signal.aborted, true);
+    assert.equal(attempts[0].signal.reason, HEDGE_CANCELLED);
+    assert.equal(attempts[1].signal.aborted, false);
+  });
+
+  it('fires at most maxHedges hedges, spaced delay ms apart', async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const outcome = hedge(attempt, hedgeOptions({ maxHedges: 2 }));
+
+    await sleep(5);
+    assert.equal(attempts.length, 1);
+    await sleep(10);
+    assert.equal(attempts.length, 2);
+    await sleep(40);
+    assert.equal(attempts.length, 3);
+
+    attempts[0].resolve('primary');
+    assert.deepEqual(await outcome, { result: 'primary', winner: 0, attempts: 3 });
+  });
+
+  it('skips the hedge when canHedge refuses', async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const outcome = hedge(attempt, hedgeOptions({ canHedge: () => false }));
+
+    await sleep(20);
+    assert.equal(attempts.length, 1);
+
+    attempts[0].resolve('primary');
+    assert.equal((await outcome).attempts, 1);
+  });
+
+  it('rejects right away when the only attempt fails before the delay', async () => {
+    const onHedge = mock.fn();
+    const error = new Error('boom');
+
+    await assert.rejects(
+      hedge(() => Promise.reject(error), hedgeOptions({ delay: 50, onHedge })),
+      error
+    );
+    await sleep(60);
+    assert.equal(onHedge.mock.callCount(), 0);
+  });
+
+  it("waits for the hedge when the primary fails, and rejects with the primary's error if both fail", async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const outcome = hedge(attempt, hedgeOptions());
+    await sleep(20);
+
+    const primaryError = new Error('primary');
+    attempts[0].reject(primaryError);
+    await sleep(1);
+    attempts[1].reject(new Error('hedge'));
+
+    await assert.rejects(outcome, primaryError);
+  });
+
+  it('resolves with a hedge that succeeds after the primary failed', async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const outcome = hedge(attempt, hedgeOptions());
+    await sleep(20);
+
+    attempts[0].reject(new Error('primary'));
+    attempts[1].resolve('hedge');
+
+    assert.deepEqual(await outcome, { result: 'hedge', winner: 1, attempts: 2 });
+  });
+
+  it('sends nothing when the caller signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('caller cancelled'));
+    const attempt = mock.fn(async () => 'never');
+
+    await assert.rejects(hedge(attempt, hedgeOptions({ signal: controller.signal })), /caller cancelled/);
+    assert.equal(attempt.mock.callCount(), 0);
+  });
+
+  it('aborts every attempt with the caller reason and fires no more hedges', async () => {
+    const { attempts, attempt } = controlledAttempts();
+    const controller = new AbortController();
+    const outcome = hedge(attempt, hedgeOptions({ delay: 30, maxHedges: 2, signal: controller.signal }));
+    await sleep(45);
+
+    const reason = new Error('caller cancelled');
+    controller.abort(reason);
+    assert.ok(attempts.every(({ signal }) => signal.reason === reason));
+    await sleep(60);
+    assert.equal(attempts.length, 2);
+
+    attempts.forEach(({ reject }) => reject(reason));
+    await assert.rejects(outcome, reason);
+  });
+});
+
+describe('isHedgeCancellation', () => {
+  function canceledError(reason: unknown): AxiosError {
+    const controller = new AbortController();
+    controller.abort(reason);
+    return new AxiosError('canceled', AxiosError.ERR_CANCELED, {
+      signal: controller.signal,
+      headers: new AxiosHeaders(),
+    });
+  }
+
+  it('is true for attempts cancelled because another attempt won', () => {
+    assert.equal(isHedgeCancellation(canceledError(HEDGE_CANCELLED)), true);
+  });
+
+  it('is false for caller cancellations and other errors', () => {
+    assert.equal(isHedgeCancellation(canceledError(new Error('caller'))), false);
+    assert.equal(isHedgeCancellation(new AxiosError('timeout', 'ECONNABORTED')), false);
+    assert.equal(isHedgeCancellation(new Error(HEDGE_CANCELLED)), false);
+    assert.equal(isHedgeCancellation(undefined), false);
+  });
+});
+
+describe('LatencyTracker', () => {
+  it('returns undefined until minSamples durations are recorded', () => {
+    const tracker = new LatencyTracker();
+
+    assert.equal(tracker.percentile(95), undefined);
+    tracker.record(10);
+    assert.equal(tracker.percentile(95, 2), undefined);
+    tracker.record(20);
+    assert.equal(tracker.percentile(95, 2), 20);
+  });
+
+  it('computes nearest-rank percentiles', () => {
+    const tracker = new LatencyTracker();
+    for (let ms = 100; ms >= 1; ms--) tracker.record(ms);
+
+    assert.equal(tracker.percentile(50), 50);
+    assert.equal(tracker.percentile(95), 95);
+    assert.equal(tracker.percentile(100), 100);
+    assert.equal(tracker.percentile(0), 1);
+  });
+
+  it('keeps only the most recent `size` durations', () => {
+    const tracker = new LatencyTracker(3);
+    for (const ms of [1000, 1000, 1000, 1, 2, 3]) tracker.record(ms);
+
+    assert.equal(tracker.percentile(100), 3);
+  });
+});
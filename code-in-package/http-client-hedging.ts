@@ -0,0 +1,189 @@
+/**
+ * Request hedging for the HTTP client.
+ *
+ * If a call has not completed after the hedge delay, a duplicate is fired.
+ * The first success wins and the remaining attempts are cancelled via AbortController.
+ * The delay is either fixed or derived from a percentile of the client's recent latencies.
+ */
+
+import { isAxiosError } from 'axios';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface HedgingOptions {
+  /**
+   * Fixed delay in ms before firing a hedge.
+   * Used when `percentile` is not set or there are not enough samples yet.
+   */
+  delay?: number;
+
+  /**
+   * Derive the delay from this percentile of recent successful durations (e.g. 95).
+   */
+  percentile?: number;
+
+  /**
+   * Samples required before the percentile is trusted (default: 20).
+   */
+  minSamples?: number;
+
+  /**
+   * Maximum number of hedges per call (default: 1).
+   */
+  maxHedges?: number;
+
+  /**
+   * Hedges allowed as a percentage of calls (default: 10).
+   */
+  budgetPercent?: number;
+}
+
+export interface HedgeResult<T> {
+  result: T;
+
+  /**
+   * Index of the winning attempt (0 = primary, 1+ = hedges).
+   */
+  winner: number;
+
+  /**
+   * Number of attempts launched.
+   */
+  attempts: number;
+}
+
+interface HedgeOptions {
+  delay: number;
+  maxHedges: number;
+  signal?: AbortSignal;
+  canHedge: () => boolean;
+  onHedge: (index: number) => void;
+}
+
+// Abort reason used for the attempts that lost the race
+export const HEDGE_CANCELLED = 'neoiq.hedge.cancelled';
+
+// -----------------------------------------------------------------------------
+// Latency Tracker
+// -----------------------------------------------------------------------------
+
+/**
+ * Fixed-size ring buffer of recent durations, used to derive hedge delays.
+ */
+export class LatencyTracker {
+  private readonly samples: number[] = [];
+  private next = 0;
+
+  constructor(private readonly size: number = 1000) {}
+
+  record(durationMs: number): void {
+    if (this.samples.length < this.size) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+      this.next = (this.next + 1) % this.size;
+    }
+  }
+
+  /**
+   * Percentile (0-100) of recorded durations, or undefined when there are fewer than minSamples.
+   */
+  percentile(p: number, minSamples: number = 1): number | undefined {
+    if (this.samples.length < Math.max(1, minSamples)) return undefined;
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Hedging
+// -----------------------------------------------------------------------------
+
+/**
+ * Run `attempt` and, while it is still pending, fire up to `maxHedges` duplicates
+ * spaced `delay` ms apart. Resolves with the first success; rejects with the
+ * primary's error once every launched attempt has failed.
+ */
+export function hedge<T>(
+  attempt: (signal: AbortSignal, index: number) => Promise<T>,
+  options: HedgeOptions
+): Promise<HedgeResult<T>> {
+  const { delay, maxHedges, signal, canHedge, onHedge } = options;
+
+  return new Promise((resolve, reject) => {
+    // Already cancelled by the caller: send nothing
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const controllers: AbortController[] = [];
+    const errors: unknown[] = [];
+    let pending = 0;
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortAll);
+    };
+
+    const abortAll = () => {
+      controllers.forEach((controller) => controller.abort(signal?.reason));
+    };
+    signal?.addEventListener('abort', abortAll, { once: true });
+
+    const launch = (index: number) => {
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+      if (signal?.aborted) controller.abort(signal.reason);
+
+      attempt(controller.signal, index).then(
+        (result) => {
+          if (settled) return;
+          finish();
+          controllers.forEach((other, i) => i !== index && other.abort(HEDGE_CANCELLED));
+          resolve({ result, winner: index, attempts: controllers.length });
+        },
+        (error) => {
+          pending--;
+          errors[index] = error;
+          if (settled || pending > 0) return;
+          finish();
+          reject(errors[0]);
+        }
+      );
+    };
+
+    const scheduleHedge = () => {
+      if (controllers.length > maxHedges) return;
+      timer = setTimeout(() => {
+        if (settled || pending === 0 || signal?.aborted || !canHedge()) return;
+        const index = controllers.length;
+        onHedge(index);
+        launch(index);
+        scheduleHedge();
+      }, delay);
+    };
+
+    launch(0);
+    scheduleHedge();
+  });
+}
+
+/**
+ * True when an error is the cancellation of an attempt that lost the hedge race.
+ */
+export function isHedgeCancellation(error: unknown): boolean {
+  return (
+    isAxiosError(error) &&
+    error.code === 'ERR_CANCELED' &&
+    (error.config?.signal as AbortSignal | undefined)?.reason === HEDGE_CANCELLED
+  );
+}
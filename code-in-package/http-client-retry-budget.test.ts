@@ -0,0 +1,96 @@
+/**
+ * Retry budget (token bucket) tests.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RetryBudget, getRetryBudget } from './http-client-retry-budget';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function withdrawAll(budget: RetryBudget): number {
+  let withdrawn = 0;
+  while (budget.tryWithdraw()) withdrawn++;
+  return withdrawn;
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('RetryBudget', () => {
+  it('starts full with 10 tokens by default', () => {
+    const budget = new RetryBudget();
+
+    assert.equal(budget.available, 10);
+    assert.equal(withdrawAll(budget), 10);
+    assert.equal(budget.tryWithdraw(), false);
+  });
+
+  it('refills retryPercent / 100 tokens per successful request', () => {
+    const budget = new RetryBudget({ retryPercent: 50, maxTokens: 3 });
+    withdrawAll(budget);
+
+    budget.deposit();
+    assert.equal(budget.available, 0.5);
+    assert.equal(budget.tryWithdraw(), false);
+
+    budget.deposit();
+    assert.equal(budget.tryWithdraw(), true);
+    assert.equal(budget.available, 0);
+  });
+
+  it('allows 20% retries by default once drained', () => {
+    const budget = new RetryBudget();
+    withdrawAll(budget);
+
+    for (let i = 0; i < 10; i++) budget.deposit();
+    assert.equal(withdrawAll(budget), 2);
+
+    for (let i = 0; i < 25; i++) budget.deposit();
+    assert.equal(withdrawAll(budget), 5);
+  });
+
+  it('never holds more than maxTokens', () => {
+    const budget = new RetryBudget({ retryPercent: 100, maxTokens: 2 });
+
+    for (let i = 0; i < 5; i++) budget.deposit();
+
+    assert.equal(budget.available, 2);
+  });
+
+  it('never retries with a 0% budget once the initial tokens are spent', () => {
+    const budget = new RetryBudget({ retryPercent: 0, maxTokens: 1 });
+    withdrawAll(budget);
+
+    for (let i = 0; i < 10; i++) budget.deposit();
+
+    assert.equal(budget.tryWithdraw(), false);
+  });
+});
+
+describe('getRetryBudget', () => {
+  it('shares one budget per target service', () => {
+    const first = getRetryBudget('budget-test-a', { maxTokens: 2 });
+
+    assert.equal(getRetryBudget('budget-test-a'), first);
+    assert.notEqual(getRetryBudget('budget-test-b'), first);
+  });
+
+  it('keeps the options of the first caller for a key', () => {
+    getRetryBudget('budget-test-c', { maxTokens: 2 });
+
+    assert.equal(getRetryBudget('budget-test-c', { maxTokens: 50 }).available, 2);
+  });
+
+  it('shares one process-wide budget across services with scope process', () => {
+    const budget = getRetryBudget('budget-test-d', { scope: 'process' });
+
+    assert.equal(getRetryBudget('budget-test-e', { scope: 'process' }), budget);
+    assert.notEqual(getRetryBudget('budget-test-d'), budget);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Retry budget for the HTTP client.
+ *
+ * A token bucket that caps retries at a percentage of recent successful requests:
+ * - Every successful request deposits `retryPercent / 100` tokens
+ * - Every retry withdraws one token
+ * - The bucket never holds more than `maxTokens`
+ *
+ * Budgets are shared by key (target service or the whole process), so many clients
+ * pointing at the same failing dependency cannot multiply its load during an incident.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface RetryBudgetOptions {
+  /**
+   * Retries allowed as a percentage of successful requests (default: 20).
+   */
+  retryPercent?: number;
+
+  /**
+   * Bucket capacity, i.e. the largest burst of retries allowed (default: 10).
+   * The bucket starts full so low-traffic clients can still retry.
+   */
+  maxTokens?: number;
+
+  /**
+   * Share the budget per target service or across the whole process (default: 'service').
+   */
+  scope?: 'service' | 'process';
+}
+
+// -----------------------------------------------------------------------------
+// Retry Budget
+// -----------------------------------------------------------------------------
+
+// Tolerance for deposits that do not add up exactly (10 x 0.2 = 1.9999999999999998)
+const EPSILON = 1e-9;
+
+export class RetryBudget {
+  private tokens: number;
+  private readonly depositPerSuccess: number;
+  private readonly maxTokens: number;
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 10;
+    this.depositPerSuccess = (options.retryPercent ?? 20) / 100;
+    this.tokens = this.maxTokens;
+  }
+
+  /**
+   * Record a successful request.
+   */
+  deposit(): void {
+    this.tokens = Math.min(this.maxTokens, this.tokens + this.depositPerSuccess);
+  }
+
+  /**
+   * Try to spend one token for a retry. Returns false when the budget is exhausted.
+   */
+  tryWithdraw(): boolean {
+    if (this.tokens < 1 - EPSILON) return false;
+    this.tokens = Math.max(0, this.tokens - 1);
+    return true;
+  }
+
+  /**
+   * Tokens currently available.
+   */
+  get available(): number {
+    return this.tokens;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Shared Budgets
+// -----------------------------------------------------------------------------
+
+const PROCESS_KEY = '*';
+const budgets = new Map<string, RetryBudget>();
+
+/**
+ * Get the shared budget for a target service (or the process-wide one).
+ * The first caller for a key decides its options.
+ */
+export function getRetryBudget(serviceName: string, options: RetryBudgetOptions = {}): RetryBudget {
+  const key = options.scope === 'process' ? PROCESS_KEY : serviceName;
+
+  let budget = budgets.get(key);
+  if (!budget) {
+    budget = new RetryBudget(options);
+    budgets.set(key, budget);
+  }
+  return budget;
+}
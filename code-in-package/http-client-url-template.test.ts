@@ -0,0 +1,102 @@
+/**
+ * URL templating tests: default and custom segment rules, explicit templates and the
+ * cardinality limit.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OTHER_TEMPLATE, createUrlTemplater } from './http-client-url-template';
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('createUrlTemplater', () => {
+  it('replaces UUID, numeric and hash segments by default', () => {
+    const template = createUrlTemplater();
+
+    assert.equal(
+      template({ url: '/reports/8f14e45f-ceea-467f-a0e6-0c4f5b1d2a3b/items/42' }),
+      '/reports/:uuid/items/:id'
+    );
+    assert.equal(template({ url: '/blobs/0123456789abcdef0123' }), '/blobs/:hash');
+    assert.equal(template({ url: '/users/me/settings' }), '/users/me/settings');
+  });
+
+  it('drops the query string and fragment', () => {
+    const template = createUrlTemplater();
+
+    assert.equal(template({ url: '/reports/42?include=items#top' }), '/reports/:id');
+    assert.equal(template({ url: '?page=2' }), '/');
+    assert.equal(template({}), '/');
+  });
+
+  it('reduces absolute URLs to their path', () => {
+    const template = createUrlTemplater();
+
+    assert.equal(template({ url: 'https://api.example.com/v1/orders/7?x=1' }), '/v1/orders/:id');
+  });
+
+  it('keeps leading, trailing and repeated slashes', () => {
+    const template = createUrlTemplater();
+
+    assert.equal(template({ url: '/a//42/' }), '/a//:id/');
+    assert.equal(template({ url: 'reports/42' }), 'reports/:id');
+  });
+
+  it('applies custom rules before the default ones', () => {
+    const template = createUrlTemplater({
+      rules: [
+        { match: /^\d{4}-\d{2}-\d{2}$/, replace: ':date' },
+        { match: /^7$/, replace: ':seven' },
+      ],
+    });
+
+    assert.equal(template({ url: '/days/2024-05-01/slots/7/8' }), '/days/:date/slots/:seven/:id');
+  });
+
+  it('skips the default rules when defaultRules is false', () => {
+    const template = createUrlTemplater({ defaultRules: false, rules: [{ match: /^sku-/, replace: ':sku' }] });
+
+    assert.equal(template({ url: '/products/sku-123/reviews/42' }), '/products/:sku/reviews/42');
+  });
+
+  it('matches every segment with global and sticky rule regexes', () => {
+    const rules = [
+      { match: /^sku-\w+$/g, replace: ':sku' },
+      { match: /^v\d+$/y, replace: ':version' },
+    ];
+    const template = createUrlTemplater({ rules, defaultRules: false });
+
+    assert.equal(template({ url: '/v1/p/sku-1/sku-2' }), '/:version/p/:sku/:sku');
+    assert.equal(template({ url: '/v2/p/sku-3' }), '/:version/p/:sku');
+    assert.equal(rules[0].match.lastIndex, 0);
+  });
+
+  it('uses the explicit neoiq.urlTemplate of a request', () => {
+    const template = createUrlTemplater();
+
+    assert.equal(template({ url: '/search/shoes', neoiq: { urlTemplate: '/search/:term' } }), '/search/:term');
+  });
+
+  it("collapses new templates to 'other' past the cardinality limit", () => {
+    const template = createUrlTemplater({ cardinalityLimit: 2 });
+
+    assert.equal(template({ url: '/a' }), '/a');
+    assert.equal(template({ url: '/b/1' }), '/b/:id');
+    assert.equal(template({ url: '/c' }), OTHER_TEMPLATE);
+    assert.equal(template({ url: '/b/2' }), '/b/:id'); // Already seen
+  });
+
+  it('counts the cardinality limit per templater', () => {
+    const first = createUrlTemplater({ cardinalityLimit: 1 });
+    const second = createUrlTemplater({ cardinalityLimit: 1 });
+
+    first({ url: '/a' });
+
+    assert.equal(first({ url: '/b' }), OTHER_TEMPLATE);
+    assert.equal(second({ url: '/b' }), '/b');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * URL templating for the HTTP client.
+ *
+ * Turns raw request paths into low-cardinality templates for metrics and span names:
+ *   /reports/8f14e45f-ceea-467f-a0e6-0c4f5b1d2a3b/items/42  →  /reports/:uuid/items/:id
+ *
+ * Callers can pass an explicit template per request (`neoiq.urlTemplate`). Otherwise
+ * each path segment is normalized by the configured rules. Once `cardinalityLimit`
+ * distinct templates have been seen, new ones collapse to 'other'.
+ */
+
+import { AxiosRequestConfig } from 'axios';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface UrlTemplateRule {
+  /**
+   * Matched against each path segment (the g and y flags are ignored).
+   */
+  match: RegExp;
+
+  /**
+   * Placeholder that replaces a matching segment (e.g. ':id').
+   */
+  replace: string;
+}
+
+export interface UrlTemplateOptions {
+  /**
+   * Extra segment rules, applied before the default ones.
+   */
+  rules?: UrlTemplateRule[];
+
+  /**
+   * Apply the built-in UUID / numeric ID / hash rules (default: true).
+   */
+  defaultRules?: boolean;
+
+  /**
+   * Maximum distinct templates per client before collapsing to 'other' (default: 100).
+   */
+  cardinalityLimit?: number;
+}
+
+export const OTHER_TEMPLATE = 'other';
+
+export const DEFAULT_URL_TEMPLATE_RULES: UrlTemplateRule[] = [
+  { match: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, replace: ':uuid' },
+  { match: /^\d+$/, replace: ':id' },
+  { match: /^[0-9a-f]{16,}$/i, replace: ':hash' },
+];
+
+// -----------------------------------------------------------------------------
+// Templater
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a per-client templater. It remembers the templates it has handed out
+ * so the cardinality limit holds for the lifetime of the client.
+ */
+export function createUrlTemplater(
+  options: UrlTemplateOptions = {}
+): (config: AxiosRequestConfig) => string {
+  // Stateful 'g' / 'y' regexes would make test() skip matches on later segments
+  const rules = [
+    ...(options.rules ?? []).map((rule) => ({
+      ...rule,
+      match: new RegExp(rule.match.source, rule.match.flags.replace(/[gy]/g, '')),
+    })),
+    ...(options.defaultRules === false ? [] : DEFAULT_URL_TEMPLATE_RULES),
+  ];
+  const limit = options.cardinalityLimit ?? 100;
+  const seen = new Set<string>();
+
+  return (config) => {
+    const template = config.neoiq?.urlTemplate ?? normalizePath(requestPath(config), rules);
+
+    if (seen.has(template)) return template;
+    if (seen.size >= limit) return OTHER_TEMPLATE;
+
+    seen.add(template);
+    return template;
+  };
+}
+
+/**
+ * Path of the request URL without query string or fragment.
+ * Absolute request URLs are reduced to their pathname.
+ */
+function requestPath(config: AxiosRequestConfig): string {
+  const url = config.url || '/';
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    try {
+      return new URL(url).pathname;
+    } catch {
+      return OTHER_TEMPLATE;
+    }
+  }
+  return url.split(/[?#]/)[0] || '/';
+}
+
+function normalizePath(path: string, rules: UrlTemplateRule[]): string {
+  return path
+    .split('/')
+    .map((segment) => {
+      if (!segment) return segment;
+      const rule = rules.find((r) => r.match.test(segment));
+      return rule ? rule.replace : segment;
+    })
+    .join('/');
+}
@@ -2,11 +2,15 @@
  * HTTP Client with observability, retry, and circuit breaker.
  *
  * Features:
+ * - OpenTelemetry CLIENT span per logical call, with a child span per attempt
  * - OpenTelemetry trace context propagation (traceparent header)
  * - Correlation ID propagation (x-request-id header)
- * - HTTP client metrics (request count, duration, errors)
- * - Automatic retries with exponential backoff
- * - Circuit breaker pattern
+ * - Allow-listed context field propagation (W3C baggage and configured headers)
+ * - HTTP client metrics (request count, duration, errors) labelled by URL template
+ * - Automatic retries with jittered backoff, honoring Retry-After
+ * - Circuit breaker gating every call (fails fast with CircuitOpenError)
+ * - Optional bulkhead limiting in-flight and queued requests
+ * - Optional request hedging for latency-sensitive idempotent calls
  *
  * Usage:
  *   import { createHttpClient } from '@commerceiq/neoiq-node-foundation';
@@ -19,11 +23,27 @@
  *   const response = await client.get('/users');
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  InternalAxiosRequestConfig,
+  AxiosResponse,
+} from 'axios';
 import axiosRetry, { IAxiosRetryConfig } from 'axios-retry';
 import CircuitBreaker from 'opossum';
-import { trace, context, propagation } from '@opentelemetry/api';
+import { trace, context, propagation, Span, SpanKind, SpanStatusCode, Attributes } from '@opentelemetry/api';
 import { logger, getMeter, getRequestContext } from './observability-index';
+import { BackoffStrategy, computeBackoff, parseRetryAfter } from './http-client-backoff';
+import { Bulkhead, BulkheadOptions, BulkheadRejectedError } from './http-client-bulkhead';
+import { HedgingOptions, LatencyTracker, hedge, isHedgeCancellation } from './http-client-hedging';
+import { RetryBudget, RetryBudgetOptions, getRetryBudget } from './http-client-retry-budget';
+import { UrlTemplateOptions, createUrlTemplater } from './http-client-url-template';
+import { redactError, redactString, redactUrl } from './redaction';
+import { contextSpanAttributes, outboundContextHeaders } from './context-fields';
+
+// Module logger, so its level can be set on its own (LOG_LEVEL=info,http-client=debug)
+const log = logger.child({ module: 'http-client' });
 
 // -----------------------------------------------------------------------------
 // Types
@@ -55,14 +75,42 @@ export interface HttpClientOptions {
     retries?: number;
 
     /**
-     * Base delay in milliseconds for exponential backoff (default: 1000).
+     * Base delay in milliseconds for backoff (default: 1000).
      */
     retryDelay?: number;
 
+    /**
+     * Backoff strategy (default: 'full-jitter').
+     * 'exponential' | 'full-jitter' | 'decorrelated-jitter' | 'fixed' | (attempt, error) => ms
+     */
+    backoff?: BackoffStrategy;
+
+    /**
+     * Maximum delay between retries in milliseconds (default: 30000).
+     * A Retry-After longer than this stops retrying instead of waiting.
+     */
+    maxDelay?: number;
+
+    /**
+     * Total time in milliseconds, from the first attempt, after which no retry is started.
+     */
+    maxRetryDuration?: number;
+
+    /**
+     * Wait for the Retry-After header on retried responses (default: true).
+     */
+    respectRetryAfter?: boolean;
+
     /**
      * HTTP status codes to retry on (default: [408, 429, 500, 502, 503, 504]).
      */
     retryStatusCodes?: number[];
+
+    /**
+     * Optional retry budget shared per target service or process-wide.
+     * Retries beyond the budget fail fast with RetryBudgetExhaustedError.
+     */
+    budget?: RetryBudgetOptions;
   };
 
   /**
@@ -83,14 +131,175 @@ export interface HttpClientOptions {
      * Error percentage threshold to open the circuit (default: 50).
      */
     errorThresholdPercentage?: number;
+
+    /**
+     * Minimum number of calls in the rolling window before the circuit can open (default: 10).
+     */
+    volumeThreshold?: number;
+
+    /**
+     * Optional fallback invoked when a call fails or the circuit is open.
+     * Receives the request config and the error (a CircuitOpenError when the circuit is open).
+     * Whatever it resolves to is returned to the caller instead of the error.
+     */
+    fallback?: (config: AxiosRequestConfig, error: Error) => AxiosResponse | Promise<AxiosResponse>;
   };
 
+  /**
+   * Concurrency limits (bulkhead). Disabled unless set.
+   * Requests beyond the limits fail fast with BulkheadRejectedError.
+   */
+  concurrency?: BulkheadOptions;
+
+  /**
+   * Request hedging for idempotent calls. Disabled unless set.
+   * After `delay` ms (or the `percentile` latency) a duplicate request is fired
+   * and the first success wins.
+   */
+  hedging?: HedgingOptions;
+
+  /**
+   * URL template normalization for metric labels and span names.
+   * Raw paths are normalized (UUIDs, numeric IDs, hashes → placeholders) unless the
+   * call passes `neoiq.urlTemplate`. Past the cardinality limit, new paths become 'other'.
+   */
+  urlTemplates?: UrlTemplateOptions;
+
   /**
    * Additional default headers.
    */
   headers?: Record<string, string>;
 }
 
+// Methods that are safe to retry without an idempotency key (RFC 9110)
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/**
+ * Per-request overrides, passed as `neoiq` on the axios request config.
+ *
+ * @example
+ *   await client.post('/api/nlq', body, {
+ *     neoiq: { operation: 'nlq.query', idempotencyKey: requestId },
+ *   });
+ */
+export interface HttpRequestOptions {
+  /**
+   * Retry overrides for this call, or `false` to disable retries.
+   * Non-idempotent methods (POST, PATCH) are only retried when an idempotencyKey is set.
+   * The retry budget is shared across calls, so it can only be set on the client.
+   */
+  retry?: false | Omit<NonNullable<HttpClientOptions['retry']>, 'budget'>;
+
+  /**
+   * Request timeout in milliseconds for this call.
+   */
+  timeout?: number;
+
+  /**
+   * Set to false to bypass the circuit breaker for this call.
+   */
+  circuitBreaker?: boolean;
+
+  /**
+   * Logical operation name, added to metrics as the `operation` label.
+   */
+  operation?: string;
+
+  /**
+   * Route template for this call (e.g. '/reports/:id'), used for the `route` metric
+   * label, `url.template` and the span name instead of the normalized path.
+   */
+  urlTemplate?: string;
+
+  /**
+   * Sent as the Idempotency-Key header. Opts non-idempotent methods into retries and hedging.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Set to false to disable hedging for this call.
+   */
+  hedge?: boolean;
+}
+
+/**
+ * Retry bookkeeping carried on the request config across attempts.
+ */
+interface RetryState {
+  deadline?: number;
+  previousDelay?: number;
+  budgetExhausted?: boolean;
+}
+
+/**
+ * Span and start time of the current attempt.
+ */
+interface AttemptState {
+  span: Span;
+  startTime: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    neoiq?: HttpRequestOptions;
+    neoiqRetryState?: RetryState;
+    neoiqAttempt?: AttemptState;
+  }
+}
+
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open' | 'disabled';
+
+/**
+ * Axios instance returned by createHttpClient.
+ * Every call (`client(config)`, `request()` and the verb helpers) is routed through the circuit breaker.
+ */
+export interface HttpClient extends AxiosInstance {
+  /**
+   * Current circuit breaker state ('disabled' when the breaker is turned off).
+   */
+  getCircuitBreakerState(): CircuitBreakerState;
+
+  /**
+   * Rolling circuit breaker statistics (undefined when the breaker is turned off).
+   */
+  getCircuitBreakerStats(): CircuitBreaker.Stats | undefined;
+}
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+/**
+ * Thrown without making a network call when the circuit for a target service is open.
+ */
+export class CircuitOpenError extends Error {
+  readonly code = 'ECIRCUITOPEN';
+
+  constructor(
+    readonly targetService: string,
+    readonly config?: AxiosRequestConfig
+  ) {
+    super(`Circuit breaker is open for ${targetService}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when a retry was needed but the target service's retry budget is spent.
+ * `cause` holds the error of the last attempt.
+ */
+export class RetryBudgetExhaustedError extends Error {
+  readonly code = 'ERETRYBUDGET';
+
+  constructor(
+    readonly targetService: string,
+    readonly cause: Error
+  ) {
+    super(`Retry budget exhausted for ${targetService}: ${cause.message}`);
+    this.name = 'RetryBudgetExhaustedError';
+  }
+}
+
 // -----------------------------------------------------------------------------
 // HTTP Client Factory
 // -----------------------------------------------------------------------------
@@ -99,13 +308,16 @@ export interface HttpClientOptions {
  * Create a configured HTTP client with full observability.
  * Metrics are exported to OTEL Collector → Groundcover.
  */
-export function createHttpClient(options: HttpClientOptions): AxiosInstance {
+export function createHttpClient(options: HttpClientOptions): HttpClient {
   const {
     baseURL,
     serviceName,
     timeout = 30000,
     retry = {},
     circuitBreaker: cbOptions = {},
+    concurrency,
+    hedging,
+    urlTemplates,
     headers = {},
   } = options;
 
@@ -119,6 +331,8 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
     },
   });
 
+  const tracer = trace.getTracer('neoiq-foundation');
+
   // Setup metrics (per Groundcover guide)
   const meter = getMeter(`http-client-${serviceName}`);
   const requestCounter = meter.createCounter('http.client.requests.total', {
@@ -131,14 +345,66 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
   const requestErrors = meter.createCounter('http.client.requests.errors', {
     description: 'Total number of outbound HTTP request errors',
   });
+  const retryCounter = meter.createCounter('http.client.retries.total', {
+    description: 'Total number of outbound HTTP retry attempts',
+  });
+  const breakerState = meter.createObservableGauge('http.client.circuit_breaker.state', {
+    description: 'Circuit breaker state (0 = closed, 1 = half-open, 2 = open)',
+  });
+  const breakerTransitions = meter.createCounter('http.client.circuit_breaker.transitions', {
+    description: 'Total number of circuit breaker state transitions',
+  });
+  const breakerRejections = meter.createCounter('http.client.circuit_breaker.rejections', {
+    description: 'Total number of calls rejected by an open circuit breaker',
+  });
+  const breakerFallbacks = meter.createCounter('http.client.circuit_breaker.fallbacks', {
+    description: 'Total number of circuit breaker fallback invocations',
+  });
+  const budgetExhausted = meter.createCounter('http.client.retry_budget.exhausted', {
+    description: 'Total number of retries denied by the retry budget',
+  });
+
+  const inFlightGauge = meter.createObservableGauge('http.client.concurrency.in_flight', {
+    description: 'Outbound HTTP requests currently in flight',
+  });
+  const queueDepthGauge = meter.createObservableGauge('http.client.concurrency.queue_depth', {
+    description: 'Outbound HTTP requests waiting for a concurrency slot',
+  });
+  const queueWait = meter.createHistogram('http.client.concurrency.queue_wait', {
+    description: 'Time outbound HTTP requests waited for a concurrency slot in milliseconds',
+    unit: 'ms',
+  });
+  const bulkheadRejections = meter.createCounter('http.client.concurrency.rejections', {
+    description: 'Total number of outbound HTTP requests rejected by the concurrency limiter',
+  });
+
+  const hedgeCounter = meter.createCounter('http.client.hedge.requests', {
+    description: 'Total number of hedged (duplicate) outbound HTTP requests fired',
+  });
+  const hedgeWins = meter.createCounter('http.client.hedge.wins', {
+    description: 'Hedged outbound HTTP calls by winning attempt',
+  });
+
+  const retryBudget = retry.budget ? getRetryBudget(serviceName, retry.budget) : undefined;
+  const templateUrl = createUrlTemplater(urlTemplates);
+  const latencyTracker = hedging ? new LatencyTracker() : undefined;
 
   // ---------------------------------------------------------------------------
-  // Request Interceptor - Add trace context and correlation ID
+  // Request Interceptor - Add trace context, correlation ID and context fields
   // ---------------------------------------------------------------------------
   client.interceptors.request.use((config: InternalAxiosRequestConfig) => {
-    // 1. Propagate OpenTelemetry trace context (W3C traceparent)
+    // 1. Start the attempt span (child of the logical call span)
+    const resendCount = config['axios-retry']?.retryCount ?? 0;
+    const span = tracer.startSpan(spanName(config), {
+      kind: SpanKind.CLIENT,
+      attributes: attemptAttributes(client, config, resendCount),
+    });
+    config.neoiqAttempt = { span, startTime: Date.now() };
+
+    // 2. Propagate OpenTelemetry trace context (W3C traceparent) and baggage, which in a
+    //    request holds only the allow-listed context fields
     const carrier: Record<string, string> = {};
-    propagation.inject(context.active(), carrier);
+    propagation.inject(trace.setSpan(context.active(), span), carrier);
 
     if (carrier.traceparent) {
       config.headers.set('traceparent', carrier.traceparent);
@@ -146,21 +412,30 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
     if (carrier.tracestate) {
       config.headers.set('tracestate', carrier.tracestate);
     }
+    if (carrier.baggage) {
+      config.headers.set('baggage', carrier.baggage);
+    }
 
-    // 2. Propagate correlation ID
+    // 3. Propagate correlation ID and the request's idempotency key
     const reqCtx = getRequestContext();
     if (reqCtx?.correlationId) {
       config.headers.set('x-request-id', reqCtx.correlationId);
     }
+    if (config.neoiq?.idempotencyKey) {
+      config.headers.set('Idempotency-Key', config.neoiq.idempotencyKey);
+    }
 
-    // 3. Add timing metadata
-    (config as any).__startTime = Date.now();
+    // 4. Send the headers of allow-listed context fields; headers set on the request win
+    for (const [name, value] of Object.entries(outboundContextHeaders(reqCtx?.fields))) {
+      if (!config.headers.has(name)) config.headers.set(name, value);
+    }
+    span.setAttributes(contextSpanAttributes(reqCtx?.fields));
 
-    // 4. Log outbound request
-    logger.debug(
+    // 5. Log outbound request
+    log.debug(
       {
         method: config.method?.toUpperCase(),
-        url: `${config.baseURL || ''}${config.url}`,
+        url: redactUrl(`${config.baseURL || ''}${config.url}`),
         targetService: serviceName,
         correlationId: reqCtx?.correlationId,
       },
@@ -171,25 +446,25 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
   });
 
   // ---------------------------------------------------------------------------
-  // Response Interceptor - Log and record metrics
+  // Response Interceptor - End attempt span, log and record metrics
   // ---------------------------------------------------------------------------
   client.interceptors.response.use(
     (response: AxiosResponse) => {
-      const config = response.config as any;
-      const durationMs = Date.now() - (config.__startTime || Date.now());
+      const config = response.config;
+      const durationMs = Date.now() - (config.neoiqAttempt?.startTime ?? Date.now());
       const reqCtx = getRequestContext();
 
-      const labels = {
-        target_service: serviceName,
-        method: config.method?.toUpperCase() || 'GET',
-        status_code: String(response.status),
-      };
+      const labels = metricLabels(serviceName, config, response.status);
+
+      const span = config.neoiqAttempt?.span;
+      span?.setAttribute('http.response.status_code', response.status);
+      span?.end();
 
       // Log success
-      logger.debug(
+      log.debug(
         {
           method: config.method?.toUpperCase(),
-          url: `${config.baseURL || ''}${config.url}`,
+          url: redactUrl(`${config.baseURL || ''}${config.url}`),
           targetService: serviceName,
           statusCode: response.status,
           durationMs,
@@ -202,29 +477,42 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
       requestCounter.add(1, labels);
       requestDuration.record(durationMs, labels);
 
+      retryBudget?.deposit();
+      latencyTracker?.record(durationMs);
+
       return response;
     },
-    (error) => {
-      const config = error.config as any;
-      const durationMs = config ? Date.now() - (config.__startTime || Date.now()) : 0;
+    (error: AxiosError) => {
+      const config = error.config;
+      const span = config?.neoiqAttempt?.span;
+
+      // The losing side of a hedge race is not a failure
+      if (isHedgeCancellation(error)) {
+        span?.setAttribute('http.hedge.cancelled', true);
+        span?.end();
+        return Promise.reject(error);
+      }
+
+      const durationMs = config?.neoiqAttempt ? Date.now() - config.neoiqAttempt.startTime : 0;
       const statusCode = error.response?.status || 0;
       const reqCtx = getRequestContext();
 
-      const labels = {
-        target_service: serviceName,
-        method: config?.method?.toUpperCase() || 'GET',
-        status_code: String(statusCode),
-      };
+      const labels = metricLabels(serviceName, config, statusCode);
+
+      if (span) {
+        recordSpanError(span, error);
+        span.end();
+      }
 
       // Log error
-      logger.error(
+      log.error(
         {
           method: config?.method?.toUpperCase(),
-          url: config ? `${config.baseURL || ''}${config.url}` : 'unknown',
+          url: config ? redactUrl(`${config.baseURL || ''}${config.url}`) : 'unknown',
           targetService: serviceName,
           statusCode,
           durationMs,
-          error: error.message,
+          error: redactString(error.message),
           correlationId: reqCtx?.correlationId,
         },
         'Outbound HTTP error'
@@ -244,21 +532,88 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
   // ---------------------------------------------------------------------------
   const retryConfig: IAxiosRetryConfig = {
     retries: retry.retries ?? 3,
-    retryDelay: (retryCount) => {
-      const baseDelay = retry.retryDelay ?? 1000;
-      return baseDelay * Math.pow(2, retryCount - 1); // Exponential backoff
+    retryDelay: (retryCount, error) => {
+      const options = { ...retry, ...requestRetry(error.config) };
+      const state = error.config?.neoiqRetryState;
+
+      let delay = computeBackoff(retryCount, error, {
+        strategy: options.backoff ?? 'full-jitter',
+        baseDelay: options.retryDelay ?? 1000,
+        maxDelay: options.maxDelay ?? 30000,
+        previousDelay: state?.previousDelay,
+      });
+
+      const retryAfter = options.respectRetryAfter !== false
+        ? parseRetryAfter(error.response?.headers?.['retry-after'])
+        : undefined;
+      if (retryAfter !== undefined) {
+        delay = Math.max(delay, retryAfter);
+      }
+
+      if (state?.deadline !== undefined) {
+        delay = Math.min(delay, Math.max(0, state.deadline - Date.now()));
+      }
+      if (state) {
+        state.previousDelay = delay;
+      }
+      return delay;
     },
     retryCondition: (error) => {
-      const retryStatusCodes = retry.retryStatusCodes ?? [408, 429, 500, 502, 503, 504];
+      // Cancelled calls (caller abort or lost hedge) must not be retried
+      if (error.code === 'ERR_CANCELED') {
+        return false;
+      }
+
+      const options = { ...retry, ...requestRetry(error.config) };
+      const retryStatusCodes = options.retryStatusCodes ?? [408, 429, 500, 502, 503, 504];
       const status = error.response?.status;
-      return !error.response || retryStatusCodes.includes(status || 0);
+      if (error.response && !retryStatusCodes.includes(status || 0)) {
+        return false;
+      }
+
+      // Past the retry deadline, or asked to wait longer than we are willing to
+      const deadline = error.config?.neoiqRetryState?.deadline;
+      if (deadline !== undefined && Date.now() >= deadline) {
+        return false;
+      }
+      if (options.respectRetryAfter !== false) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        const maxWait = Math.min(
+          options.maxDelay ?? 30000,
+          deadline !== undefined ? deadline - Date.now() : Infinity
+        );
+        if (retryAfter !== undefined && retryAfter > maxWait) {
+          return false;
+        }
+      }
+
+      // Checked last so a token is only spent on a retry that will happen
+      if (retryBudget && !retryBudget.tryWithdraw()) {
+        budgetExhausted.add(1, metricLabels(serviceName, error.config, status || 0));
+        if (error.config?.neoiqRetryState) {
+          error.config.neoiqRetryState.budgetExhausted = true;
+        }
+        return false;
+      }
+      return true;
     },
     onRetry: (retryCount, error, requestConfig) => {
-      logger.warn(
+      const statusCode = String(error.response?.status || 0);
+
+      retryCounter.add(1, metricLabels(serviceName, requestConfig, error.response?.status || 0));
+
+      trace.getActiveSpan()?.addEvent('http.retry', {
+        'http.retry_count': retryCount,
+        'http.status_code': statusCode,
+        'error.message': redactString(error.message),
+        'target_service': serviceName,
+      });
+
+      log.warn(
         {
           retryCount,
-          url: `${requestConfig.baseURL || ''}${requestConfig.url}`,
-          error: error.message,
+          url: redactUrl(`${requestConfig.baseURL || ''}${requestConfig.url}`),
+          error: redactString(error.message),
           targetService: serviceName,
         },
         'Retrying HTTP request'
@@ -269,33 +624,429 @@ export function createHttpClient(options: HttpClientOptions): AxiosInstance {
   axiosRetry(client, retryConfig);
 
   // ---------------------------------------------------------------------------
-  // Configure Circuit Breaker
+  // Configure Hedging
   // ---------------------------------------------------------------------------
-  if (cbOptions.enabled !== false) {
-    const breaker = new CircuitBreaker(
-      async (config: AxiosRequestConfig) => client.request(config),
+  const request = client.request.bind(client);
+  const serviceLabels = { target_service: serviceName };
+  // Reuses the token bucket: every call deposits, every hedge withdraws
+  const hedgeBudget = hedging
+    ? new RetryBudget({ retryPercent: hedging.budgetPercent ?? 10 })
+    : undefined;
+
+  const execute = async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method || 'GET').toUpperCase();
+    const hedgeable =
+      config.neoiq?.hedge !== false &&
+      (IDEMPOTENT_METHODS.includes(method) || !!config.neoiq?.idempotencyKey);
+    const delay = hedgeable ? hedgeDelay(hedging, latencyTracker) : undefined;
+
+    if (delay === undefined || !hedgeBudget) {
+      return request(config);
+    }
+
+    hedgeBudget.deposit();
+    const labels = metricLabels(serviceName, config, 0);
+    delete labels.status_code;
+
+    // Each attempt retries on its own; only the deadline of the logical call is shared
+    const { result, winner, attempts } = await hedge(
+      (signal) =>
+        request<unknown, AxiosResponse>({
+          ...config,
+          signal,
+          neoiqRetryState: { deadline: config.neoiqRetryState?.deadline },
+        }),
       {
-        timeout,
-        resetTimeout: cbOptions.resetTimeout ?? 30000,
-        errorThresholdPercentage: cbOptions.errorThresholdPercentage ?? 50,
-        volumeThreshold: 10,
+        delay,
+        maxHedges: hedging?.maxHedges ?? 1,
+        signal: config.signal as AbortSignal | undefined,
+        canHedge: () => hedgeBudget.tryWithdraw(),
+        onHedge: (index) => {
+          hedgeCounter.add(1, labels);
+          trace.getActiveSpan()?.addEvent('http.hedge.fired', { 'http.hedge.attempt': index });
+        },
       }
     );
 
+    if (attempts > 1) {
+      hedgeWins.add(1, { ...labels, winner: winner === 0 ? 'primary' : 'hedge' });
+      trace.getActiveSpan()?.setAttributes({
+        'http.hedge.winner': winner,
+        'http.hedge.attempts': attempts,
+      });
+    }
+    return result;
+  };
+
+  // ---------------------------------------------------------------------------
+  // Configure Bulkhead
+  // ---------------------------------------------------------------------------
+  const bulkhead = concurrency ? new Bulkhead(serviceName, concurrency) : undefined;
+
+  if (bulkhead) {
+    inFlightGauge.addCallback((result) => result.observe(bulkhead.inFlight, serviceLabels));
+    queueDepthGauge.addCallback((result) => result.observe(bulkhead.queued, serviceLabels));
+  }
+
+  // A slot is held for the whole logical call, including retries
+  const send = async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    if (!bulkhead) return execute(config);
+
+    const queuedAt = Date.now();
+    let release: () => void;
+    try {
+      release = await bulkhead.acquire();
+    } catch (error) {
+      if (error instanceof BulkheadRejectedError) {
+        bulkheadRejections.add(1, { ...serviceLabels, reason: error.reason });
+      }
+      throw error;
+    }
+    queueWait.record(Date.now() - queuedAt, serviceLabels);
+
+    try {
+      return await execute(config);
+    } finally {
+      release();
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Configure Circuit Breaker
+  // ---------------------------------------------------------------------------
+  // Retries run inside a single breaker call, so one logical request counts once.
+  // Per-attempt timeouts are enforced by axios; a breaker timeout would cut retries short.
+  const breaker =
+    cbOptions.enabled === false
+      ? undefined
+      : new CircuitBreaker((config: AxiosRequestConfig) => send(config), {
+          name: serviceName,
+          timeout: false,
+          resetTimeout: cbOptions.resetTimeout ?? 30000,
+          errorThresholdPercentage: cbOptions.errorThresholdPercentage ?? 50,
+          volumeThreshold: cbOptions.volumeThreshold ?? 10,
+          // Client errors and local load shedding say nothing about downstream health
+          errorFilter: (error) => isClientError(error) || error instanceof BulkheadRejectedError,
+        });
+
+  if (breaker) {
+    if (cbOptions.fallback) {
+      const fallback = cbOptions.fallback;
+      breaker.fallback((config: AxiosRequestConfig, error: Error) =>
+        fallback(config, toClientError(error, serviceName, config))
+      );
+    }
+
+    breakerState.addCallback((result) => {
+      result.observe(breaker.opened ? 2 : breaker.halfOpen ? 1 : 0, serviceLabels);
+    });
+
     breaker.on('open', () => {
-      logger.warn({ targetService: serviceName, baseURL }, 'Circuit breaker OPEN');
+      breakerTransitions.add(1, { ...serviceLabels, state: 'open' });
+      log.warn({ targetService: serviceName, baseURL }, 'Circuit breaker OPEN');
     });
 
     breaker.on('halfOpen', () => {
-      logger.info({ targetService: serviceName, baseURL }, 'Circuit breaker HALF-OPEN');
+      breakerTransitions.add(1, { ...serviceLabels, state: 'half-open' });
+      log.info({ targetService: serviceName, baseURL }, 'Circuit breaker HALF-OPEN');
     });
 
     breaker.on('close', () => {
-      logger.info({ targetService: serviceName, baseURL }, 'Circuit breaker CLOSED');
+      breakerTransitions.add(1, { ...serviceLabels, state: 'closed' });
+      log.info({ targetService: serviceName, baseURL }, 'Circuit breaker CLOSED');
     });
+
+    breaker.on('reject', () => {
+      breakerRejections.add(1, serviceLabels);
+      trace.getActiveSpan()?.addEvent('http.circuit_breaker.rejected', serviceLabels);
+    });
+
+    breaker.on('fallback', () => {
+      breakerFallbacks.add(1, serviceLabels);
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Route Requests - One CLIENT span per logical call
+  // ---------------------------------------------------------------------------
+  const httpClient = routeRequests(client, (requestConfig) => {
+    const config = applyRequestOptions(requestConfig, retry);
+    config.neoiq = { ...config.neoiq, urlTemplate: templateUrl(config) };
+
+    return tracer.startActiveSpan(
+      spanName(config),
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': (config.method || 'GET').toUpperCase(),
+          'server.address': serverAddress(client, config),
+          'url.template': config.neoiq.urlTemplate,
+          'peer.service': serviceName,
+          ...(config.neoiq?.operation && { 'neoiq.operation': config.neoiq.operation }),
+        },
+      },
+      async (span) => {
+        try {
+          const response =
+            breaker && config.neoiq?.circuitBreaker !== false
+              ? await breaker.fire(config)
+              : await send(config);
+          span.setAttribute('http.response.status_code', response.status);
+          return response;
+        } catch (error) {
+          const clientError = toClientError(error as Error, serviceName, config);
+          recordSpanError(span, clientError);
+          throw clientError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }) as HttpClient;
+
+  httpClient.getCircuitBreakerState = () => {
+    if (!breaker) return 'disabled';
+    if (breaker.opened) return 'open';
+    if (breaker.halfOpen) return 'half-open';
+    return 'closed';
+  };
+  httpClient.getCircuitBreakerStats = () => breaker?.stats;
+
+  return httpClient;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Metric labels for an outbound call; `route` is the URL template and
+ * `operation` is added when the caller named one.
+ */
+function metricLabels(
+  serviceName: string,
+  config: AxiosRequestConfig | undefined,
+  statusCode: number
+): Record<string, string> {
+  const labels: Record<string, string> = {
+    target_service: serviceName,
+    method: config?.method?.toUpperCase() || 'GET',
+    status_code: String(statusCode),
+  };
+  if (config?.neoiq?.urlTemplate) {
+    labels.route = config.neoiq.urlTemplate;
+  }
+  if (config?.neoiq?.operation) {
+    labels.operation = config.neoiq.operation;
+  }
+  return labels;
+}
+
+/**
+ * Span name per semantic conventions: '{method} {url.template}', or just the method.
+ */
+function spanName(config: AxiosRequestConfig): string {
+  const method = (config.method || 'GET').toUpperCase();
+  return config.neoiq?.urlTemplate ? `${method} ${config.neoiq.urlTemplate}` : method;
+}
+
+/**
+ * Delay before hedging: the configured percentile once enough samples exist, else the fixed delay.
+ * Undefined means don't hedge.
+ */
+function hedgeDelay(
+  hedging: HedgingOptions | undefined,
+  tracker: LatencyTracker | undefined
+): number | undefined {
+  if (!hedging) return undefined;
+  if (hedging.percentile !== undefined) {
+    const derived = tracker?.percentile(hedging.percentile, hedging.minSamples ?? 20);
+    if (derived !== undefined) return derived;
+  }
+  return hedging.delay;
+}
+
+/**
+ * Per-request retry overrides, if any.
+ */
+function requestRetry(config: AxiosRequestConfig | undefined) {
+  const retry = config?.neoiq?.retry;
+  return retry === false ? undefined : retry;
+}
+
+/**
+ * Translate `neoiq` per-request options into plain axios / axios-retry config.
+ */
+function applyRequestOptions(
+  config: AxiosRequestConfig,
+  retryDefaults: NonNullable<HttpClientOptions['retry']>
+): AxiosRequestConfig {
+  const { neoiq } = config;
+  const method = (config.method || 'GET').toUpperCase();
+  const retryOptions = { ...retryDefaults, ...requestRetry(config) };
+  const retryable =
+    neoiq?.retry !== false && (IDEMPOTENT_METHODS.includes(method) || !!neoiq?.idempotencyKey);
+  const retries = retryable ? (retryOptions.retries ?? 3) : 0;
+
+  return {
+    ...config,
+    timeout: neoiq?.timeout ?? config.timeout,
+    'axios-retry': { ...config['axios-retry'], retries },
+    neoiqRetryState: {
+      deadline:
+        retryOptions.maxRetryDuration !== undefined
+          ? Date.now() + retryOptions.maxRetryDuration
+          : undefined,
+    },
+  };
+}
+
+/**
+ * Semantic-convention attributes for a single attempt span.
+ */
+function attemptAttributes(
+  client: AxiosInstance,
+  config: AxiosRequestConfig,
+  resendCount: number
+): Attributes {
+  const attributes: Attributes = {
+    'http.request.method': (config.method || 'GET').toUpperCase(),
+  };
+  if (config.neoiq?.urlTemplate) {
+    attributes['url.template'] = config.neoiq.urlTemplate;
+  }
+
+  try {
+    const url = new URL(client.getUri(config));
+    attributes['server.address'] = url.hostname;
+    attributes['server.port'] = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+    attributes['url.full'] = redactUrl(url.toString());
+  } catch {
+    // Relative or malformed URL: leave address attributes unset
+  }
+
+  if (resendCount > 0) {
+    attributes['http.request.resend_count'] = resendCount;
+  }
+  return attributes;
+}
+
+/**
+ * Host of the target service, for the logical call span.
+ */
+function serverAddress(client: AxiosInstance, config: AxiosRequestConfig): string {
+  try {
+    return new URL(client.getUri(config)).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Low-cardinality `error.type`: the status code for HTTP errors, 'timeout' for timeouts,
+ * otherwise the error code or class name.
+ */
+function errorType(error: unknown): string {
+  const status = responseStatus(error);
+  if (status) return String(status);
+  const code = errorCode(error);
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') return 'timeout';
+  return code || (error instanceof Error ? error.name : '') || '_OTHER';
+}
+
+/**
+ * Mark a span as failed. Cancellations end the span without an exception event.
+ */
+function recordSpanError(span: Span, error: unknown): void {
+  const status = responseStatus(error);
+  if (status) {
+    span.setAttribute('http.response.status_code', status);
+  }
+  span.setAttribute('error.type', errorType(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: redactString(error instanceof Error ? error.message : String(error)),
+  });
+
+  if (errorCode(error) !== 'ERR_CANCELED') {
+    span.recordException(redactError(error));
+  }
+}
+
+/**
+ * 4xx responses (other than 408/429) are caller errors, not downstream failures.
+ */
+function isClientError(error: unknown): boolean {
+  const status = responseStatus(error);
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/**
+ * Translate internal rejections into the client's typed errors:
+ * opossum's open-circuit rejection and retries denied by the retry budget.
+ */
+function toClientError(error: Error, serviceName: string, config: AxiosRequestConfig): Error {
+  if (errorCode(error) === 'EOPENBREAKER') {
+    return new CircuitOpenError(serviceName, config);
+  }
+  if (axios.isAxiosError(error) && error.config?.neoiqRetryState?.budgetExhausted) {
+    return new RetryBudgetExhaustedError(serviceName, error);
+  }
+  return error;
+}
+
+/**
+ * HTTP status of an axios error with a response.
+ */
+function responseStatus(error: unknown): number | undefined {
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
+/**
+ * `code` of axios, Node system and opossum errors.
+ */
+function errorCode(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null || !('code' in error)) return undefined;
+  return typeof error.code === 'string' ? error.code : undefined;
+}
+
+/**
+ * Callable client routing every entry point through `fire`: `client(config)`,
+ * `client(url, config)`, `request()`, the verb helpers and the `*Form` helpers.
+ * Axios binds the helpers to its internal context, so overriding `request` alone is not enough.
+ * `client` itself is left as is: axios-retry resends attempts through it.
+ */
+function routeRequests(
+  client: AxiosInstance,
+  fire: (config: AxiosRequestConfig) => Promise<AxiosResponse>
+): AxiosInstance {
+  // Same (configOrUrl, config) signature as axios's request()
+  const request = (configOrUrl: string | AxiosRequestConfig, config?: AxiosRequestConfig) =>
+    fire(typeof configOrUrl === 'string' ? { ...config, url: configOrUrl } : { ...configOrUrl });
+
+  // Shares defaults, interceptors and the bound helpers (getUri, create, ...) with `client`
+  const routed = Object.assign(request, client) as unknown as AxiosInstance;
+  routed.request = request as AxiosInstance['request'];
+
+  for (const method of ['get', 'delete', 'head', 'options'] as const) {
+    routed[method] = ((url: string, config?: AxiosRequestConfig) =>
+      fire({ ...config, method, url })) as AxiosInstance[typeof method];
+  }
+
+  for (const method of ['post', 'put', 'patch'] as const) {
+    routed[method] = ((url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      fire({ ...config, method, url, data })) as AxiosInstance[typeof method];
+  }
+
+  for (const method of ['post', 'put', 'patch'] as const) {
+    routed[`${method}Form`] = ((url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      // Merged as axios' own *Form helpers do, so AxiosHeaders and plain objects both work
+      fire(
+        axios.mergeConfig(config ?? {}, { method, url, data, headers: { 'Content-Type': 'multipart/form-data' } })
+      )) as AxiosInstance[`${typeof method}Form`];
   }
 
-  return client;
+  return routed;
 }
 
 // Convenience exports
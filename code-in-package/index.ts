@@ -15,17 +15,127 @@ export {
   getMeter,
   getRequestContext,
   runWithContext,
+  setContextField,
+  getContextField,
+  getContextFields,
   getTraceContext,
   shutdown,
+  setLogLevel,
+  resetLogLevel,
   als,
+  SpanKind,
   SpanStatusCode,
   type InitOptions,
   type RequestContext,
+  type Logger,
+  type LogFn,
+  type LogLevel,
 } from './observability-index';
+export { serializeError, type SerializedError } from './error-serializer';
+export { getLogLevels, type LogLevelsState, type LogLevelOverride } from './log-levels';
+
+// Context fields
+export {
+  type ContextFields,
+  type ContextFieldName,
+  type ContextFieldConfig,
+  type ContextFieldsOptions,
+} from './context-fields';
+
+// Context propagation
+export {
+  withSpan,
+  withConsumerSpan,
+  bindContext,
+  injectContext,
+  extractContext,
+  type WithSpanOptions,
+  type ConsumerSpanOptions,
+  type MessageContext,
+  type ExtractedContext,
+} from './context-propagation';
+
+// Traced functions
+export { traced, Traced, type TracedOptions, type TracedDecorator } from './traced';
+
+// Business metrics
+export {
+  defineMetrics,
+  validateMetricDefinitions,
+  MetricDefinitionError,
+  type MetricType,
+  type LabelSpec,
+  type MetricDefinition,
+  type MetricDefinitions,
+  type MetricLabels,
+  type DefinedMetrics,
+  type MetricValidationIssue,
+  type TypedCounter,
+  type TypedUpDownCounter,
+  type TypedHistogram,
+  type TypedGauge,
+} from './metrics-registry';
+
+// Metric views
+export { DURATION_BUCKETS_MS, type MetricViewOptions, type MetricInstrumentType } from './metric-views';
+
+// Redaction
+export {
+  redactString,
+  redactUrl,
+  redactHeaders,
+  REDACTION_PATTERNS,
+  type RedactionOptions,
+} from './redaction';
+
+// Instrumentations
+export {
+  type InstrumentationOptions,
+  type InstrumentationConfigs,
+  type InstrumentationName,
+} from './instrumentations';
+
+// Exporters
+export { type ExporterOptions, type ExporterProtocol } from './exporters';
+
+// Sampling
+export { type SamplingOptions, type SamplingRule } from './sampling';
+export {
+  type TailSamplingOptions,
+  type TailSamplingRule,
+  type TailSamplingKeepReason,
+} from './tail-sampling';
 
 // Fastify plugin
 export { observabilityPlugin } from './observability-plugin';
 
 // HTTP client
-export { createHttpClient, type HttpClientOptions } from './http-client';
+export {
+  createHttpClient,
+  CircuitOpenError,
+  RetryBudgetExhaustedError,
+  type HttpClient,
+  type HttpClientOptions,
+  type HttpRequestOptions,
+  type CircuitBreakerState,
+} from './http-client';
+export { type BackoffStrategy } from './http-client-backoff';
+export { type RetryBudgetOptions } from './http-client-retry-budget';
+export {
+  BulkheadRejectedError,
+  type BulkheadOptions,
+  type BulkheadRejectionReason,
+} from './http-client-bulkhead';
+export { type HedgingOptions } from './http-client-hedging';
+export { type UrlTemplateOptions, type UrlTemplateRule } from './http-client-url-template';
 
+// Testing
+export {
+  createTestObservability,
+  type TestObservability,
+  type TestObservabilityOptions,
+  type SpanMatcher,
+  type TestMetric,
+  type TestMetricPoint,
+  type TestLogRecord,
+} from './testing';
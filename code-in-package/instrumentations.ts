@@ -0,0 +1,122 @@
+/**
+ * Auto-instrumentation configuration.
+ *
+ * Builds the instrumentation set passed to the NodeSDK from `init({ instrumentations })`:
+ * the foundation defaults, per-instrumentation overrides keyed by short name
+ * ('http', 'pg', 'redis-4', ...), and extra instrumentations (kafkajs, custom).
+ *
+ * The standard environment variables are honored on top of the code config:
+ *   OTEL_NODE_ENABLED_INSTRUMENTATIONS: comma-separated short names to load (all others off)
+ *   OTEL_NODE_DISABLED_INSTRUMENTATIONS: comma-separated short names to turn off
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     instrumentations: {
+ *       disabled: ['dns', 'net'],
+ *       config: {
+ *         pg: { enhancedDatabaseReporting: false },
+ *         'redis-4': { dbStatementSerializer: (cmd) => cmd },
+ *       },
+ *       additional: [new KafkaJsInstrumentation()],
+ *     },
+ *   });
+ */
+
+import { IncomingMessage } from 'http';
+import {
+  getNodeAutoInstrumentations,
+  InstrumentationConfigMap,
+} from '@opentelemetry/auto-instrumentations-node';
+import { Instrumentation } from '@opentelemetry/instrumentation';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const PACKAGE_PREFIX = '@opentelemetry/instrumentation-';
+
+type ShortName<K> = K extends `${typeof PACKAGE_PREFIX}${infer Name}` ? Name : never;
+
+/**
+ * Auto-instrumentation configs keyed by short name (e.g. 'http', 'pg', 'redis-4').
+ */
+export type InstrumentationConfigs = {
+  [K in keyof InstrumentationConfigMap as ShortName<K>]?: InstrumentationConfigMap[K];
+};
+
+export type InstrumentationName = keyof InstrumentationConfigs;
+
+export interface InstrumentationOptions {
+  /**
+   * Auto-instrumentations to turn off, by short name (e.g. ['dns', 'net']).
+   */
+  disabled?: InstrumentationName[];
+
+  /**
+   * Per-instrumentation config, merged over the foundation defaults.
+   * `{ fastify: { enabled: true } }` re-enables the Fastify instrumentation.
+   */
+  config?: InstrumentationConfigs;
+
+  /**
+   * Instrumentations to load in addition to the auto-instrumentations
+   * (e.g. a KafkaJsInstrumentation with custom hooks, or an in-house one).
+   */
+  additional?: Instrumentation[];
+
+  /**
+   * Incoming request paths (prefix match) the http instrumentation does not trace
+   * (default: ['/health']). Combined with any `config.http.ignoreIncomingRequestHook`.
+   */
+  ignoreIncomingPaths?: string[];
+}
+
+// -----------------------------------------------------------------------------
+// Builder
+// -----------------------------------------------------------------------------
+
+/**
+ * Resolve the instrumentation set for the NodeSDK. Called by init().
+ */
+export function buildInstrumentations(
+  options: InstrumentationOptions = {},
+  serverSpans: 'instrumentation' | 'plugin' = 'instrumentation'
+): Instrumentation[] {
+  const { disabled = [], config = {}, additional = [], ignoreIncomingPaths = ['/health'] } = options;
+  const userHttp = config.http ?? {};
+
+  const configs: InstrumentationConfigs = {
+    // Too noisy
+    fs: { enabled: false },
+    // observabilityPlugin covers Fastify; per-hook spans only nest more spans under the request
+    fastify: { enabled: false },
+    // The foundation logger is bridged by init({ logs: { otel: true } }); avoid duplicate records
+    pino: { disableLogSending: true },
+    ...config,
+    http: {
+      // One SERVER span per request: either this one (enriched by the plugin) or the plugin's
+      disableIncomingRequestInstrumentation: serverSpans === 'plugin',
+      ...userHttp,
+      ignoreIncomingRequestHook: (request: IncomingMessage) =>
+        ignoreIncomingPaths.some((path) => request.url?.startsWith(path)) ||
+        (userHttp.ignoreIncomingRequestHook?.(request) ?? false),
+    },
+  };
+
+  const packageConfigs: Record<string, { enabled?: boolean }> = {};
+  for (const [name, value] of Object.entries(configs)) {
+    packageConfigs[`${PACKAGE_PREFIX}${name}`] = value;
+  }
+  for (const name of disabled) {
+    packageConfigs[`${PACKAGE_PREFIX}${name}`] = {
+      ...packageConfigs[`${PACKAGE_PREFIX}${name}`],
+      enabled: false,
+    };
+  }
+
+  return [
+    ...getNodeAutoInstrumentations(packageConfigs as InstrumentationConfigMap),
+    ...additional,
+  ];
+}
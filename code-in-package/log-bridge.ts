@@ -0,0 +1,78 @@
+/**
+ * pino → OpenTelemetry log bridge.
+ *
+ * A pino destination that re-emits every log record as an OTEL LogRecord on the
+ * global LoggerProvider (set up by `init({ logs: { otel: true } })`):
+ * - severity from the pino level
+ * - body from `msg`
+ * - trace/span IDs from the active span, else from the record (request ALS store)
+ * - every other field as an attribute; service/version/env come from the resource
+ */
+
+import { Context, context, trace, TraceFlags } from '@opentelemetry/api';
+import { AnyValue, AnyValueMap, logs, SeverityNumber } from '@opentelemetry/api-logs';
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+const SEVERITY: Record<string, SeverityNumber> = {
+  trace: SeverityNumber.TRACE,
+  debug: SeverityNumber.DEBUG,
+  info: SeverityNumber.INFO,
+  warn: SeverityNumber.WARN,
+  error: SeverityNumber.ERROR,
+  fatal: SeverityNumber.FATAL,
+};
+
+// Fields carried by the LogRecord itself or by the resource, not repeated as attributes
+const RESERVED_FIELDS = new Set(['level', 'time', 'msg', 'traceId', 'spanId', 'service', 'version', 'env']);
+
+// -----------------------------------------------------------------------------
+// Bridge
+// -----------------------------------------------------------------------------
+
+/**
+ * pino destination emitting each record through the OTEL Logs API.
+ */
+export function createOtelLogStream(): { write(line: string): void } {
+  const otelLogger = logs.getLogger('neoiq-foundation');
+
+  return {
+    write(line) {
+      let record: Record<string, unknown>;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        return;
+      }
+
+      const attributes: AnyValueMap = {};
+      for (const [key, value] of Object.entries(record)) {
+        if (!RESERVED_FIELDS.has(key)) attributes[key] = value as AnyValue;
+      }
+
+      const level = String(record.level);
+      otelLogger.emit({
+        timestamp: typeof record.time === 'number' ? record.time : undefined,
+        severityNumber: SEVERITY[level] ?? SeverityNumber.UNSPECIFIED,
+        severityText: level.toUpperCase(),
+        body: typeof record.msg === 'string' ? record.msg : undefined,
+        attributes,
+        context: logContext(record.traceId, record.spanId),
+      });
+    },
+  };
+}
+
+/**
+ * The active context, or one carrying the record's trace IDs when no span is active
+ * (e.g. IDs restored from the request's AsyncLocalStorage store).
+ */
+function logContext(traceId: unknown, spanId: unknown): Context {
+  const active = context.active();
+  if (trace.getSpanContext(active) || typeof traceId !== 'string' || typeof spanId !== 'string') {
+    return active;
+  }
+  return trace.setSpanContext(active, { traceId, spanId, traceFlags: TraceFlags.NONE });
+}
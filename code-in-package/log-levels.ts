@@ -0,0 +1,203 @@
+/**
+ * Runtime log levels.
+ *
+ * The level of each log record is resolved from, in order:
+ * - a runtime override for the logger's module (setLogLevel(level, { module }))
+ * - a runtime override for all loggers (setLogLevel(level))
+ * - the module's configured level (`LOG_LEVEL=info,http-client=debug` or `logLevels.modules`)
+ * - the default level (`logLevel`, else the bare entry of LOG_LEVEL, else info)
+ *
+ * A logger's module is the `module` binding of its child: `logger.child({ module: 'reports' })`.
+ * The foundation's own loggers use 'http-client' and 'observability-plugin'.
+ *
+ * Runtime overrides expire after their TTL and the level reverts on its own.
+ * This module only keeps the state; setLogLevel() and resetLogLevel() in
+ * observability-index also log each change.
+ */
+
+import type { LogLevel } from './observability-index';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface LogLevelOverride {
+  /**
+   * Module the override applies to; undefined for all loggers.
+   */
+  module?: string;
+  level: LogLevel;
+
+  /**
+   * ISO timestamp at which the override is removed; undefined if it never expires.
+   */
+  expiresAt?: string;
+}
+
+export interface LogLevelsState {
+  /**
+   * Level of loggers without a module-specific level.
+   */
+  level: LogLevel;
+
+  /**
+   * Configured default level, before runtime overrides.
+   */
+  defaultLevel: LogLevel;
+
+  /**
+   * Effective level of each module with a configured level or an override.
+   */
+  modules: Record<string, LogLevel>;
+
+  /**
+   * Active runtime overrides.
+   */
+  overrides: LogLevelOverride[];
+}
+
+/**
+ * Parsed LOG_LEVEL-style spec: `info,http-client=debug,pg=warn`.
+ */
+export interface LogLevelSpec {
+  level?: LogLevel;
+  modules: Record<string, LogLevel>;
+}
+
+interface ActiveOverride {
+  level: LogLevel;
+  expiresAt?: number;
+  timer?: NodeJS.Timeout;
+}
+
+// -----------------------------------------------------------------------------
+// State
+// -----------------------------------------------------------------------------
+
+export const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+// Key of the override that applies to all loggers
+const ALL_MODULES = '*';
+
+let defaultLevel: LogLevel = 'info';
+let moduleLevels = new Map<string, LogLevel>();
+const overrides = new Map<string, ActiveOverride>();
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Parse `info,http-client=debug`. Unknown levels are ignored.
+ */
+export function parseLogLevelSpec(spec: string | undefined): LogLevelSpec {
+  const result: LogLevelSpec = { modules: {} };
+
+  for (const entry of (spec ?? '').split(',')) {
+    const [name, level] = entry.includes('=') ? entry.split('=', 2) : [undefined, entry];
+    const normalized = level.trim().toLowerCase();
+    if (!isLogLevel(normalized)) continue;
+
+    if (name === undefined) {
+      result.level = normalized;
+    } else if (name.trim()) {
+      result.modules[name.trim()] = normalized;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Install the configured levels and drop all runtime overrides.
+ */
+export function configureLogLevels(level: LogLevel, modules: Record<string, LogLevel> = {}): void {
+  defaultLevel = level;
+  moduleLevels = new Map(Object.entries(modules));
+  for (const module of [...overrides.keys()]) {
+    removeOverride(module);
+  }
+}
+
+/**
+ * Effective level for a logger bound to `module` (or for loggers without one).
+ */
+export function resolveLogLevel(module?: string): LogLevel {
+  return (
+    (module !== undefined ? overrides.get(module)?.level : undefined) ??
+    overrides.get(ALL_MODULES)?.level ??
+    (module !== undefined ? moduleLevels.get(module) : undefined) ??
+    defaultLevel
+  );
+}
+
+/**
+ * Set a runtime override. `onExpire` is called when the TTL removes it.
+ */
+export function setLevelOverride(
+  level: LogLevel,
+  module: string | undefined,
+  ttlMs: number,
+  onExpire: () => void
+): void {
+  const key = module ?? ALL_MODULES;
+  removeOverride(key);
+
+  const override: ActiveOverride = { level };
+  if (ttlMs > 0) {
+    override.expiresAt = Date.now() + ttlMs;
+    override.timer = setTimeout(() => {
+      removeOverride(key);
+      onExpire();
+    }, ttlMs);
+    override.timer.unref();
+  }
+  overrides.set(key, override);
+}
+
+/**
+ * Remove a runtime override. Returns false if there was none.
+ */
+export function clearLevelOverride(module?: string): boolean {
+  return removeOverride(module ?? ALL_MODULES);
+}
+
+/**
+ * The override for all loggers, if any.
+ */
+export function getGlobalOverride(): LogLevel | undefined {
+  return overrides.get(ALL_MODULES)?.level;
+}
+
+export function getLogLevels(): LogLevelsState {
+  const modules: Record<string, LogLevel> = {};
+  const names = new Set([...moduleLevels.keys(), ...overrides.keys()]);
+  names.delete(ALL_MODULES);
+  for (const name of names) {
+    modules[name] = resolveLogLevel(name);
+  }
+
+  return {
+    level: resolveLogLevel(),
+    defaultLevel,
+    modules,
+    overrides: [...overrides].map(([key, { level, expiresAt }]) => ({
+      module: key === ALL_MODULES ? undefined : key,
+      level,
+      expiresAt: expiresAt !== undefined ? new Date(expiresAt).toISOString() : undefined,
+    })),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function removeOverride(key: string): boolean {
+  const override = overrides.get(key);
+  if (!override) return false;
+
+  clearTimeout(override.timer);
+  overrides.delete(key);
+  return true;
+}
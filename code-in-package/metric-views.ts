@@ -0,0 +1,200 @@
+/**
+ * Metric views.
+ *
+ * Views built from `init({ metricViews })` change how the metrics of matching instruments
+ * are aggregated and exported:
+ * - explicit histogram bucket boundaries, or exponential histograms
+ * - attribute allow lists, e.g. to drop high-cardinality labels
+ * - attribute exclusions for instruments declared with defineMetrics()
+ * - renaming the metric stream (or changing its description)
+ *
+ * Instruments are selected by name, with '*' wildcards, and optionally by meter and
+ * instrument type. An instrument matching several views is exported once per view, so
+ * put everything for one instrument in a single view.
+ *
+ * The SDK views take an attribute allow list only. `excludeAttributes` is applied by the
+ * defineMetrics() instruments instead, which drop the keys before recording; a view
+ * carrying nothing else adds no SDK view.
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     metricViews: [
+ *       { instrument: 'http.*.request.duration', buckets: DURATION_BUCKETS_MS },
+ *       { instrument: 'nlq.query.duration', exponential: true, attributes: ['status'] },
+ *       { instrument: 'reports.*', meter: 'canvas-weaver', excludeAttributes: ['retailer'] },
+ *       { instrument: 'reports.created.total', name: 'canvas.reports.created.total' },
+ *     ],
+ *   });
+ */
+
+import {
+  Aggregation,
+  ExplicitBucketHistogramAggregation,
+  ExponentialHistogramAggregation,
+  InstrumentType,
+  View,
+} from '@opentelemetry/sdk-metrics';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MetricInstrumentType =
+  | 'counter'
+  | 'upDownCounter'
+  | 'histogram'
+  | 'gauge'
+  | 'observableCounter'
+  | 'observableUpDownCounter'
+  | 'observableGauge';
+
+export interface MetricViewOptions {
+  /**
+   * Instrument name to match; '*' matches any characters (e.g. 'http.*.request.duration').
+   */
+  instrument: string;
+
+  /**
+   * Only match instruments of this meter (exact name, default: any meter).
+   */
+  meter?: string;
+
+  /**
+   * Only match instruments of this type (default: any type).
+   */
+  type?: MetricInstrumentType;
+
+  /**
+   * Explicit histogram bucket boundaries, in the instrument's unit (default: SDK boundaries).
+   */
+  buckets?: number[];
+
+  /**
+   * Use a base-2 exponential histogram, which adapts its buckets to the recorded range:
+   * true, or the maximum number of buckets (default: false; 160 buckets when true).
+   */
+  exponential?: boolean | number;
+
+  /**
+   * Attribute keys to keep; the others are dropped (default: keep every attribute).
+   * The SDK views take an allow list only, so list the keys to keep.
+   */
+  attributes?: string[];
+
+  /**
+   * Attribute keys to drop (default: none). Applies to instruments declared with
+   * defineMetrics(), which drop the keys before recording; for other instruments list
+   * the keys to keep in `attributes`.
+   */
+  excludeAttributes?: string[];
+
+  /**
+   * New name for the exported metric. Only for views matching a single instrument.
+   */
+  name?: string;
+
+  /**
+   * New description for the exported metric.
+   */
+  description?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+/**
+ * Bucket boundaries for durations in ms, covering 5ms to 60s.
+ */
+export const DURATION_BUCKETS_MS = [5, 10, 25, 50, 75, 100, 250, 500, 750, 1000, 2500, 5000, 10000, 30000, 60000];
+
+const INSTRUMENT_TYPES: Record<MetricInstrumentType, InstrumentType> = {
+  counter: InstrumentType.COUNTER,
+  upDownCounter: InstrumentType.UP_DOWN_COUNTER,
+  histogram: InstrumentType.HISTOGRAM,
+  gauge: InstrumentType.GAUGE,
+  observableCounter: InstrumentType.OBSERVABLE_COUNTER,
+  observableUpDownCounter: InstrumentType.OBSERVABLE_UP_DOWN_COUNTER,
+  observableGauge: InstrumentType.OBSERVABLE_GAUGE,
+};
+
+// Views with excludeAttributes, set by configureMetricViews()
+let exclusions: MetricViewOptions[] = [];
+
+// -----------------------------------------------------------------------------
+// Views
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the SDK views for the MeterProvider. Called by init(); throws on invalid options.
+ */
+export function createMetricViews(options: MetricViewOptions[] = []): View[] {
+  return options.flatMap((option) => {
+    const { instrument, meter, type, attributes, excludeAttributes, name, description } = option;
+    const aggregation = createAggregation(option);
+
+    if (attributes && excludeAttributes) {
+      throw new Error(`Metric view '${instrument}': set either attributes or excludeAttributes, not both`);
+    }
+    if (!aggregation && !attributes && !name && !description) {
+      return []; // Only excludeAttributes, applied when recording
+    }
+    return new View({
+      instrumentName: instrument,
+      meterName: meter,
+      instrumentType: type ? INSTRUMENT_TYPES[type] : undefined,
+      aggregation,
+      attributeKeys: attributes,
+      name,
+      description,
+    });
+  });
+}
+
+/**
+ * Keep the views' excludeAttributes for the defineMetrics() instruments. Called by init().
+ */
+export function configureMetricViews(options: MetricViewOptions[] = []): void {
+  exclusions = options.filter((option) => option.excludeAttributes?.length);
+}
+
+/**
+ * Attribute keys the configured views exclude for an instrument (empty when none).
+ */
+export function excludedAttributes(meter: string, instrument: string, type: MetricInstrumentType): Set<string> {
+  const matching = exclusions.filter(
+    (option) =>
+      namePattern(option.instrument).test(instrument) &&
+      (option.meter === undefined || option.meter === meter) &&
+      (option.type === undefined || option.type === type)
+  );
+  return new Set(matching.flatMap((option) => option.excludeAttributes ?? []));
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function createAggregation(option: MetricViewOptions): Aggregation | undefined {
+  const { instrument, buckets, exponential } = option;
+
+  if (buckets && exponential) {
+    throw new Error(`Metric view '${instrument}': set either buckets or exponential, not both`);
+  }
+  if (buckets) {
+    if (buckets.some((boundary) => !Number.isFinite(boundary))) {
+      throw new Error(`Metric view '${instrument}': bucket boundaries must be finite numbers`);
+    }
+    return new ExplicitBucketHistogramAggregation(buckets);
+  }
+  if (exponential) {
+    return new ExponentialHistogramAggregation(exponential === true ? undefined : exponential);
+  }
+  return undefined;
+}
+
+// Instrument name pattern → RegExp, '*' matching any characters
+function namePattern(pattern: string): RegExp {
+  return new RegExp(`^${pattern.replace(/[\^$\\.+?()[\]{}|]/g, '\\$&').replace(/\*/g, '.*')}$`);
+}
@@ -0,0 +1,188 @@
+/**
+ * Declarative metrics tests: naming validation, definition errors, label normalization
+ * and attribute exclusions from metric views.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MetricDefinition,
+  MetricDefinitionError,
+  defineMetrics,
+  validateMetricDefinitions,
+} from './metrics-registry';
+import { TestObservability, createTestObservability } from './testing';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Issue messages of a single definition, by severity.
+ */
+function issuesOf(definition: MetricDefinition): { errors: string[]; warnings: string[] } {
+  const issues = validateMetricDefinitions({ metric: definition });
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message),
+    warnings: issues.filter((issue) => issue.severity === 'warning').map((issue) => issue.message),
+  };
+}
+
+const counter = { type: 'counter', description: 'Reports created', unit: '{report}' } as const;
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('validateMetricDefinitions', () => {
+  it('accepts definitions that follow the conventions', () => {
+    assert.deepEqual(
+      validateMetricDefinitions({
+        reportsCreated: { ...counter, name: 'reports.created', labels: { report_type: ['standard'] } },
+        nlqDuration: { type: 'histogram', name: 'nlq.query.duration', description: 'NLQ latency', unit: 'ms' },
+      }),
+      []
+    );
+  });
+
+  it('reports invalid names, units and unbounded labels as errors', () => {
+    assert.equal(issuesOf({ ...counter, name: '1reports' }).errors.length, 1);
+    assert.equal(issuesOf({ ...counter, name: 'reports created' }).errors.length, 1);
+    assert.equal(issuesOf({ ...counter, name: `r.${'x'.repeat(255)}` }).errors.length, 1);
+    assert.equal(issuesOf({ ...counter, name: 'reports.created', unit: 'µs' }).errors.length, 1);
+    const unbounded = issuesOf({ ...counter, name: 'reports.created', labels: { a: [], b: { maxValues: 0 } } });
+    assert.deepEqual(unbounded.errors, [
+      "label 'a' needs at least one allowed value or a maxValues of 1 or more",
+      "label 'b' needs at least one allowed value or a maxValues of 1 or more",
+    ]);
+  });
+
+  it('reports names used twice, ignoring case', () => {
+    const issues = validateMetricDefinitions({
+      created: { ...counter, name: 'reports.created' },
+      createdAgain: { ...counter, name: 'Reports.Created', legacyName: true },
+    });
+
+    assert.deepEqual(issues, [
+      { metric: 'createdAgain', severity: 'error', message: "name 'Reports.Created' is also used by 'created'" },
+    ]);
+  });
+
+  it('warns about name spelling, units, missing descriptions and label keys', () => {
+    assert.deepEqual(issuesOf({ ...counter, name: 'Reports.created' }).warnings, [
+      "name 'Reports.created' should be lowercase",
+    ]);
+    assert.equal(issuesOf({ ...counter, name: 'reports.created-x/y' }).warnings.length, 1);
+    assert.equal(issuesOf({ ...counter, name: 'reports' }).warnings.length, 1);
+    assert.equal(issuesOf({ ...counter, name: 'reports.created.total' }).warnings.length, 1);
+    assert.equal(issuesOf({ ...counter, name: 'nlq.duration_ms' }).warnings.length, 1);
+    assert.deepEqual(issuesOf({ ...counter, name: 'reports.size', unit: 'bytes' }).warnings, [
+      "unit 'bytes' should be the UCUM 'By'",
+    ]);
+    assert.deepEqual(issuesOf({ type: 'histogram', name: 'nlq.duration' }).warnings, [
+      'histogram has no unit',
+      'no description',
+    ]);
+    assert.deepEqual(issuesOf({ ...counter, name: 'reports.created', labels: { reportType: ['x'] } }).warnings, [
+      "label 'reportType' should be lowercase snake_case (namespaced with '.')",
+    ]);
+  });
+
+  it("allows a 'total' suffix on histograms and gauges", () => {
+    assert.deepEqual(issuesOf({ ...counter, type: 'gauge', name: 'queue.total' }).warnings, []);
+  });
+
+  it('skips the spelling warnings, but not errors or other warnings, for legacy names', () => {
+    assert.deepEqual(issuesOf({ ...counter, name: 'Reports-Created_total', legacyName: true }), {
+      errors: [],
+      warnings: [],
+    });
+    assert.deepEqual(issuesOf({ type: 'counter', name: 'reports.created.total', legacyName: true }).warnings, [
+      'no description',
+    ]);
+    assert.equal(issuesOf({ ...counter, name: 'reports created', legacyName: true }).errors.length, 1);
+  });
+});
+
+describe('defineMetrics', () => {
+  let obs: TestObservability;
+
+  before(() => {
+    obs = createTestObservability({
+      metricViews: [{ instrument: 'test.excluded.*', excludeAttributes: ['retailer'] }],
+    });
+  });
+
+  afterEach(() => obs.reset());
+
+  after(() => obs.shutdown());
+
+  it('throws a MetricDefinitionError listing every error', () => {
+    assert.throws(
+      () =>
+        defineMetrics('test', {
+          bad: { ...counter, name: '1bad' },
+          unbounded: { ...counter, name: 'test.unbounded', labels: { id: [] } },
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof MetricDefinitionError);
+        assert.deepEqual(
+          error.issues.map((issue) => issue.metric),
+          ['bad', 'unbounded']
+        );
+        assert.match(error.message, /bad: name '1bad'/);
+        return true;
+      }
+    );
+  });
+
+  it('defines metrics with warnings only, and logs the warnings', () => {
+    defineMetrics('test', { legacy: { ...counter, name: 'test-legacy' } });
+
+    assert.equal(obs.findLogs({ msg: 'Metric definitions do not follow OpenTelemetry conventions' }).length, 1);
+  });
+
+  it("records the declared labels, and 'other' for values outside the allowed set or over the cap", async () => {
+    const metrics = defineMetrics('test', {
+      created: {
+        ...counter,
+        name: 'test.created',
+        labels: { report_type: ['standard', 'custom'], retailer: { maxValues: 1 } },
+      },
+    });
+
+    metrics.created.add(1, { report_type: 'standard', retailer: 'acme' });
+    metrics.created.add(1, { report_type: 'standard', retailer: 'acme' });
+    metrics.created.add(2, { report_type: 'custom', retailer: 'globex' });
+    metrics.created.add(3, { report_type: 'weekly' as 'standard', retailer: 'acme' });
+
+    const metric = await obs.getMetric('test.created');
+    assert.deepEqual(metric?.points.map(({ attributes, value }) => ({ attributes, value })), [
+      { attributes: { report_type: 'standard', retailer: 'acme' }, value: 2 },
+      { attributes: { report_type: 'custom', retailer: 'other' }, value: 2 },
+      { attributes: { report_type: 'other', retailer: 'acme' }, value: 3 },
+    ]);
+    assert.equal(obs.findLogs({ msg: /outside its allowed set/ }).length, 2); // Once per label
+  });
+
+  it('drops the labels excluded by metric views', async () => {
+    const metrics = defineMetrics('test', {
+      duration: {
+        type: 'histogram',
+        name: 'test.excluded.duration',
+        description: 'Duration',
+        unit: 'ms',
+        labels: { status: ['success', 'error'], retailer: { maxValues: 10 } },
+      },
+      count: { ...counter, name: 'test.kept.count', labels: { retailer: { maxValues: 10 } } },
+    });
+
+    metrics.duration.record(5, { status: 'success', retailer: 'acme' });
+    metrics.count.add(1, { retailer: 'acme' });
+
+    assert.deepEqual((await obs.getMetric('test.excluded.duration'))?.points[0].attributes, { status: 'success' });
+    assert.deepEqual((await obs.getMetric('test.kept.count'))?.points[0].attributes, { retailer: 'acme' });
+  });
+});
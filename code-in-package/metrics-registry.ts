@@ -0,0 +1,373 @@
+/**
+ * Declarative business metrics.
+ *
+ * Declare a service's counters, up-down counters, histograms and gauges in one place
+ * and get instruments whose label keys and values are checked by TypeScript:
+ * - every label is bounded: a list of allowed values, or a cap on distinct values;
+ *   anything else is recorded as 'other' (and logged once)
+ * - names, units and label keys are validated against OpenTelemetry conventions when
+ *   the metrics are defined: errors throw, warnings are logged
+ * - instruments bind to the meter provider on first use, so definitions can live in a
+ *   module imported before init()
+ * - labels excluded by the `excludeAttributes` of init()'s metric views are dropped
+ *
+ * Usage:
+ *   export const metrics = defineMetrics('canvas-weaver', {
+ *     reportsCreated: {
+ *       type: 'counter',
+ *       name: 'reports.created',
+ *       description: 'Reports created',
+ *       unit: '{report}',
+ *       labels: { type: ['standard', 'custom'] },
+ *     },
+ *     nlqDuration: {
+ *       type: 'histogram',
+ *       name: 'nlq.query.duration',
+ *       unit: 'ms',
+ *       labels: { status: ['success', 'error'], retailer: { maxValues: 200 } },
+ *     },
+ *   });
+ *
+ *   metrics.reportsCreated.add(1, { type: 'standard' });
+ *   metrics.nlqDuration.record(durationMs, { status: 'success', retailer });
+ */
+
+import { Attributes, Meter } from '@opentelemetry/api';
+import { getMeter, logger } from './observability-index';
+import { excludedAttributes } from './metric-views';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MetricType = 'counter' | 'upDownCounter' | 'histogram' | 'gauge';
+
+/**
+ * Allowed values of a label, or a cap on how many distinct values it records.
+ */
+export type LabelSpec = readonly string[] | { maxValues: number };
+
+export interface MetricDefinition {
+  type: MetricType;
+
+  /**
+   * Instrument name, e.g. 'reports.created' (lowercase, '.' between namespaces).
+   */
+  name: string;
+  description?: string;
+
+  /**
+   * UCUM unit, e.g. 'ms', 's', 'By', '1' or an annotation like '{report}'.
+   */
+  unit?: string;
+
+  /**
+   * The name predates these conventions and dashboards or alerts depend on it, e.g.
+   * 'reports.created.total': skip the warnings about how the name is spelled (case,
+   * namespaces, a 'total' or unit suffix). Naming errors still throw (default: false).
+   */
+  legacyName?: boolean;
+
+  /**
+   * Label keys and their allowed values or cardinality caps (default: no labels).
+   */
+  labels?: Record<string, LabelSpec>;
+}
+
+export type MetricDefinitions = Record<string, MetricDefinition>;
+
+type LabelValue<S> = S extends readonly (infer V)[] ? V : string;
+
+/**
+ * Label object accepted by a defined metric: every declared key, with its allowed values.
+ */
+export type MetricLabels<D extends MetricDefinition> = D['labels'] extends Record<string, LabelSpec>
+  ? { [K in keyof D['labels']]: LabelValue<D['labels'][K]> }
+  : {};
+
+// Labels are optional only for metrics that declare none
+type LabelArgs<L> = {} extends L ? [labels?: L] : [labels: L];
+
+export interface TypedCounter<L> {
+  add(value: number, ...labels: LabelArgs<L>): void;
+}
+
+export interface TypedUpDownCounter<L> {
+  add(value: number, ...labels: LabelArgs<L>): void;
+}
+
+export interface TypedHistogram<L> {
+  record(value: number, ...labels: LabelArgs<L>): void;
+}
+
+export interface TypedGauge<L> {
+  record(value: number, ...labels: LabelArgs<L>): void;
+}
+
+type InstrumentFor<D extends MetricDefinition> = D['type'] extends 'histogram'
+  ? TypedHistogram<MetricLabels<D>>
+  : D['type'] extends 'gauge'
+    ? TypedGauge<MetricLabels<D>>
+    : D['type'] extends 'upDownCounter'
+      ? TypedUpDownCounter<MetricLabels<D>>
+      : TypedCounter<MetricLabels<D>>;
+
+export type DefinedMetrics<D extends MetricDefinitions> = {
+  readonly [K in keyof D]: InstrumentFor<D[K]>;
+};
+
+export interface MetricValidationIssue {
+  /**
+   * Key of the definition the issue is about.
+   */
+  metric: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Thrown by defineMetrics() when a definition breaks an OpenTelemetry rule
+ * (invalid or duplicate name, invalid unit, unbounded label).
+ */
+export class MetricDefinitionError extends Error {
+  constructor(readonly issues: MetricValidationIssue[]) {
+    super(
+      `Invalid metric definitions:\n${issues.map((issue) => `  - ${issue.metric}: ${issue.message}`).join('\n')}`
+    );
+    this.name = 'MetricDefinitionError';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+// Recorded in place of label values outside the allowed set or over the cap
+const OTHER_LABEL_VALUE = 'other';
+
+// OpenTelemetry instrument name syntax
+const INSTRUMENT_NAME = /^[A-Za-z][A-Za-z0-9_.\-/]{0,254}$/;
+
+const LABEL_KEY = /^[a-z][a-z0-9_.]*$/;
+
+const UNIT_SUFFIX = /[._](ms|millis|milliseconds|s|sec|seconds|bytes|percent)$/;
+
+// Common non-UCUM units and their UCUM spelling
+const UCUM_UNITS: Record<string, string> = {
+  milliseconds: 'ms',
+  millis: 'ms',
+  seconds: 's',
+  sec: 's',
+  bytes: 'By',
+  byte: 'By',
+  percent: '%',
+  count: '1',
+};
+
+const log = logger.child({ module: 'metrics' });
+
+// -----------------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------------
+
+/**
+ * Declare business metrics on the `meterName` meter and get typed instruments.
+ * Throws MetricDefinitionError on invalid definitions; convention warnings are logged.
+ */
+export function defineMetrics<const D extends MetricDefinitions>(
+  meterName: string,
+  definitions: D,
+  version: string = '1.0.0'
+): DefinedMetrics<D> {
+  const issues = validateMetricDefinitions(definitions);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new MetricDefinitionError(errors);
+  }
+  if (issues.length > 0) {
+    log.warn(
+      { meter: meterName, issues: issues.map(({ metric, message }) => `${metric}: ${message}`) },
+      'Metric definitions do not follow OpenTelemetry conventions'
+    );
+  }
+
+  const instruments: Record<string, unknown> = {};
+  for (const [key, definition] of Object.entries(definitions)) {
+    instruments[key] = createInstrument(meterName, version, definition);
+  }
+  return instruments as DefinedMetrics<D>;
+}
+
+/**
+ * Check definitions against OpenTelemetry naming rules (errors) and conventions (warnings).
+ * Run it in a unit test to catch issues before deploying.
+ */
+export function validateMetricDefinitions(definitions: MetricDefinitions): MetricValidationIssue[] {
+  const issues: MetricValidationIssue[] = [];
+  const seen = new Map<string, string>();
+
+  for (const [metric, definition] of Object.entries(definitions)) {
+    const { type, name, description, unit, legacyName = false, labels = {} } = definition;
+    const error = (message: string) => issues.push({ metric, severity: 'error', message });
+    const warn = (message: string) => issues.push({ metric, severity: 'warning', message });
+
+    // Rules
+    if (!INSTRUMENT_NAME.test(name)) {
+      error(`name '${name}' is not a valid instrument name (letter first, then letters, digits, '_', '.', '-' or '/', at most 255 characters)`);
+    }
+    const duplicate = seen.get(name.toLowerCase());
+    if (duplicate) {
+      error(`name '${name}' is also used by '${duplicate}'`);
+    }
+    seen.set(name.toLowerCase(), metric);
+
+    if (unit !== undefined && (unit.length > 63 || !/^[\x20-\x7e]*$/.test(unit))) {
+      error(`unit '${unit}' must be at most 63 ASCII characters`);
+    }
+
+    for (const [label, spec] of Object.entries(labels)) {
+      if (Array.isArray(spec) ? spec.length === 0 : !((spec as { maxValues: number }).maxValues >= 1)) {
+        error(`label '${label}' needs at least one allowed value or a maxValues of 1 or more`);
+      }
+      if (!LABEL_KEY.test(label)) {
+        warn(`label '${label}' should be lowercase snake_case (namespaced with '.')`);
+      }
+    }
+
+    // Conventions
+    if (!legacyName) {
+      if (name !== name.toLowerCase()) {
+        warn(`name '${name}' should be lowercase`);
+      }
+      if (/[-/]/.test(name)) {
+        warn(`name '${name}' should use '.' between namespaces and '_' within words`);
+      }
+      if (!name.includes('.')) {
+        warn(`name '${name}' should start with a namespace, as in 'reports.created'`);
+      }
+      if ((type === 'counter' || type === 'upDownCounter') && /[._]total$/.test(name)) {
+        warn(`name '${name}' should not end in 'total'; exporters that need the suffix add it (set legacyName to keep it)`);
+      }
+      if (UNIT_SUFFIX.test(name)) {
+        warn(`name '${name}' should not contain its unit; set \`unit\` instead`);
+      }
+    }
+    if (unit !== undefined && UCUM_UNITS[unit.toLowerCase()]) {
+      warn(`unit '${unit}' should be the UCUM '${UCUM_UNITS[unit.toLowerCase()]}'`);
+    }
+    if (type === 'histogram' && unit === undefined) {
+      warn(`histogram has no unit`);
+    }
+    if (!description) {
+      warn(`no description`);
+    }
+  }
+
+  return issues;
+}
+
+// -----------------------------------------------------------------------------
+// Instruments
+// -----------------------------------------------------------------------------
+
+function createInstrument(meterName: string, version: string, definition: MetricDefinition) {
+  const { type, name, description, unit, labels = {} } = definition;
+  const options = { description, unit };
+  const attributes = labelNormalizer(name, labels);
+
+  // Instruments are bound to the meter on first use (and again if the provider changes),
+  // along with the label keys excluded by the metric views init() configured
+  const bind = <T>(create: (meter: Meter) => T): (() => { instrument: T; excluded: Set<string> }) => {
+    let bound: { meter: Meter; instrument: T; excluded: Set<string> } | undefined;
+    return () => {
+      const meter = getMeter(meterName, version);
+      if (bound?.meter !== meter) {
+        bound = { meter, instrument: create(meter), excluded: excludedAttributes(meterName, name, type) };
+      }
+      return bound;
+    };
+  };
+
+  switch (type) {
+    case 'counter': {
+      const counter = bind((meter) => meter.createCounter(name, options));
+      return {
+        add: (value: number, labels?: object) => {
+          const { instrument, excluded } = counter();
+          instrument.add(value, attributes(labels, excluded));
+        },
+      };
+    }
+    case 'upDownCounter': {
+      const counter = bind((meter) => meter.createUpDownCounter(name, options));
+      return {
+        add: (value: number, labels?: object) => {
+          const { instrument, excluded } = counter();
+          instrument.add(value, attributes(labels, excluded));
+        },
+      };
+    }
+    case 'histogram': {
+      const histogram = bind((meter) => meter.createHistogram(name, options));
+      return {
+        record: (value: number, labels?: object) => {
+          const { instrument, excluded } = histogram();
+          instrument.record(value, attributes(labels, excluded));
+        },
+      };
+    }
+    case 'gauge': {
+      const gauge = bind((meter) => meter.createGauge(name, options));
+      return {
+        record: (value: number, labels?: object) => {
+          const { instrument, excluded } = gauge();
+          instrument.record(value, attributes(labels, excluded));
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Label object → attributes with only the declared, non-excluded keys, values outside the
+ * allowed set or over the cap replaced by 'other'.
+ */
+function labelNormalizer(
+  metricName: string,
+  specs: Record<string, LabelSpec>
+): (labels: object | undefined, excluded: Set<string>) => Attributes {
+  const guards = Object.entries(specs).map(([key, spec]) => {
+    const allowed = Array.isArray(spec) ? new Set<string>(spec) : undefined;
+    const maxValues = Array.isArray(spec) ? Infinity : (spec as { maxValues: number }).maxValues;
+    const seen = new Set<string>();
+    let warned = false;
+
+    const normalize = (value: string): string => {
+      if (allowed ? allowed.has(value) : seen.has(value) || seen.size < maxValues) {
+        if (!allowed) seen.add(value);
+        return value;
+      }
+      if (!warned) {
+        warned = true;
+        log.warn(
+          { metric: metricName, label: key, limit: allowed ? [...allowed] : maxValues },
+          `Metric label value outside its allowed set; recording '${OTHER_LABEL_VALUE}'`
+        );
+      }
+      return OTHER_LABEL_VALUE;
+    };
+    return { key, normalize };
+  });
+
+  return (labels, excluded) => {
+    const attributes: Attributes = {};
+    for (const { key, normalize } of guards) {
+      if (excluded.has(key)) continue;
+      const value = (labels as Record<string, unknown> | undefined)?.[key];
+      if (value !== undefined && value !== null) {
+        attributes[key] = normalize(String(value));
+      }
+    }
+    return attributes;
+  };
+}
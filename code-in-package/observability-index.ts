@@ -7,9 +7,15 @@
  *
  * Environment Variables:
  *   OTEL_EXPORTER_OTLP_ENDPOINT: Collector URL (default: cluster OTEL Collector)
+ *   OTEL_EXPORTER_OTLP_PROTOCOL: grpc | http/protobuf | http/json (default: grpc)
+ *   OTEL_LOGS_EXPORTER: otlp to also export logs as OTEL LogRecords (default: stdout only)
  *   OTEL_SERVICE_NAME: Service name
  *   OTEL_SERVICE_VERSION: Service version (default: 1.0.0)
  *   OTEL_ENVIRONMENT: Deployment environment (default: development)
+ *   OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG: Default sampler (e.g. parentbased_traceidratio, 0.1)
+ *   OTEL_NODE_ENABLED_INSTRUMENTATIONS: Only load these auto-instrumentations (e.g. http,pg)
+ *   OTEL_NODE_DISABLED_INSTRUMENTATIONS: Turn off these auto-instrumentations (e.g. dns,net)
+ *   LOG_LEVEL: Default and per-module log levels (e.g. info,http-client=debug)
  *
  * Usage:
  *   import { init, logger, getMeter } from '@commerceiq/neoiq-node-foundation';
@@ -17,32 +23,63 @@
  *   init({ serviceName: 'my-service' });
  *
  *   logger.info({ action: 'startup' }, 'Service started');
+ *   logger.error(err, 'Failed to load config');
  *
  *   const meter = getMeter('my-service');
  *   const counter = meter.createCounter('requests_total');
  */
 
 import { NodeSDK } from '@opentelemetry/sdk-node';
-import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
-import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-grpc';
-import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-grpc';
 import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { BatchSpanProcessor, NoopSpanProcessor, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { BatchLogRecordProcessor } from '@opentelemetry/sdk-logs';
 import { Resource } from '@opentelemetry/resources';
 import {
   ATTR_SERVICE_NAME,
   ATTR_SERVICE_VERSION,
 } from '@opentelemetry/semantic-conventions';
-import { trace, metrics, SpanStatusCode } from '@opentelemetry/api';
+import { context, trace, metrics, SpanKind, SpanStatusCode } from '@opentelemetry/api';
 import pino from 'pino';
 import { AsyncLocalStorage } from 'async_hooks';
+import {
+  RedactionOptions,
+  configureRedaction,
+  getPinoRedactOptions,
+  redactObject,
+  redactString,
+} from './redaction';
+import { InstrumentationOptions, buildInstrumentations } from './instrumentations';
+import { SamplingOptions, KeepErrorsSpanProcessor, createSampler } from './sampling';
+import { TailSamplingOptions, TailSamplingSpanProcessor } from './tail-sampling';
+import { ExporterOptions, createExporters } from './exporters';
+import { createOtelLogStream } from './log-bridge';
+import { serializeError } from './error-serializer';
+import {
+  ContextFieldName,
+  ContextFields,
+  ContextFieldsOptions,
+  configureContextFields,
+  getContextFieldConfig,
+  loggedContextFields,
+  withContextBaggage,
+} from './context-fields';
+import { MetricViewOptions, configureMetricViews, createMetricViews } from './metric-views';
+import {
+  LOG_LEVELS,
+  clearLevelOverride,
+  configureLogLevels,
+  getGlobalOverride,
+  isLogLevel,
+  parseLogLevelSpec,
+  resolveLogLevel,
+  setLevelOverride,
+} from './log-levels';
 
 // -----------------------------------------------------------------------------
 // Configuration
 // -----------------------------------------------------------------------------
 
-// Default OTEL Collector endpoint (per Groundcover guide - Kubernetes internal)
-const DEFAULT_OTEL_COLLECTOR =
-  'http://otel-stack-deployment-collector.observability.svc.cluster.local:4317';
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
 
 export interface InitOptions {
   /**
@@ -63,18 +100,98 @@ export interface InitOptions {
   /**
    * OTEL Collector endpoint.
    * Default: http://otel-stack-deployment-collector.observability.svc.cluster.local:4317
+   * (port 4318 for the OTLP HTTP protocols)
    */
   otlpEndpoint?: string;
 
   /**
-   * Log level (default: info).
+   * Exporter protocol ('grpc' | 'http/protobuf' | 'http/json' | 'console' | 'file' | 'none'),
+   * headers, compression, TLS and timeout. Default: OTLP over gRPC.
+   */
+  exporter?: ExporterOptions;
+
+  /**
+   * Log level (default: the bare entry of LOG_LEVEL, else info).
    */
-  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  logLevel?: LogLevel;
+
+  /**
+   * Per-module log levels and runtime level changes.
+   * - modules: level per logger module, e.g. { 'http-client': 'debug' }; merged over the
+   *   `module=level` entries of LOG_LEVEL
+   * - ttlMs: how long setLogLevel() changes last unless given their own TTL, in ms
+   *   (default: 900000; 0 keeps them until resetLogLevel())
+   * - signal: signal toggling debug for all loggers (default: 'SIGUSR2', except in
+   *   development where nodemon uses it to restart; false to disable)
+   */
+  logLevels?: {
+    modules?: Record<string, LogLevel>;
+    ttlMs?: number;
+    signal?: NodeJS.Signals | false;
+  };
+
+  /**
+   * Where logs go (default: stdout only).
+   * - stdout: JSON lines on stdout, scraped by the Groundcover agent (default: true)
+   * - otel: also emit every log as an OTEL LogRecord through `exporter`, with trace
+   *   context, severity and resource attributes (default: true if OTEL_LOGS_EXPORTER=otlp)
+   */
+  logs?: {
+    stdout?: boolean;
+    otel?: boolean;
+  };
 
   /**
    * Metrics export interval in ms (default: 5000 per Groundcover guide).
    */
   metricsIntervalMs?: number;
+
+  /**
+   * Metric views: bucket boundaries or exponential histograms, attribute allow lists,
+   * attribute exclusions for defineMetrics() instruments and renames, per instrument name
+   * or wildcard pattern (default: none, so histograms use the SDK default buckets).
+   */
+  metricViews?: MetricViewOptions[];
+
+  /**
+   * Who creates the SERVER span for incoming requests (default: 'instrumentation').
+   * - 'instrumentation': the http auto-instrumentation; observabilityPlugin enriches it
+   * - 'plugin': observabilityPlugin; incoming request spans from the http instrumentation are turned off
+   * Fastify's per-hook instrumentation is disabled in both modes.
+   */
+  serverSpans?: 'instrumentation' | 'plugin';
+
+  /**
+   * Auto-instrumentation overrides: instrumentations to disable, per-instrumentation
+   * config, extra instrumentations, and incoming paths the http instrumentation ignores.
+   */
+  instrumentations?: InstrumentationOptions;
+
+  /**
+   * Trace sampling: ratio, parent-based, per-route/method rules, rate limit, keep errors.
+   * Default: OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG, else keep every trace.
+   */
+  sampling?: SamplingOptions;
+
+  /**
+   * In-process tail sampling: buffer each trace until its root span ends, then keep it
+   * if it errored, was slow or matched a rule, else keep a ratio (default: off).
+   */
+  tailSampling?: TailSamplingOptions;
+
+  /**
+   * Sensitive data redaction for logs, span attributes and error messages.
+   * Defaults cover authorization, cookie and x-api-key headers, secret query
+   * parameters, bearer tokens, emails and card numbers.
+   */
+  redaction?: RedactionOptions;
+
+  /**
+   * Custom context fields (tenantId, userId, ...): the header or baggage key each one is
+   * read from, whether it is forwarded on outbound calls (allow-list, default: no) and
+   * the span attribute it is set as. Set fields are always logged.
+   */
+  contextFields?: ContextFieldsOptions;
 }
 
 // -----------------------------------------------------------------------------
@@ -85,6 +202,7 @@ export interface RequestContext {
   correlationId?: string;
   traceId?: string;
   spanId?: string;
+  fields?: ContextFields;
 }
 
 export const als = new AsyncLocalStorage<RequestContext>();
@@ -95,9 +213,11 @@ export const als = new AsyncLocalStorage<RequestContext>();
 
 let sdk: NodeSDK | null = null;
 let meterProvider: MeterProvider | null = null;
-let baseLogger: pino.Logger;
+let baseLogger: pino.Logger | undefined;
 let serviceName: string = 'unknown';
 let initialized = false;
+let levelOverrideTtlMs = 15 * 60 * 1000;
+let levelSignal: { signal: NodeJS.Signals; handler: () => void } | undefined;
 
 // -----------------------------------------------------------------------------
 // Initialization
@@ -122,13 +242,38 @@ export function init(options: InitOptions): void {
     serviceName: svcName,
     serviceVersion = process.env.OTEL_SERVICE_VERSION || '1.0.0',
     environment = process.env.OTEL_ENVIRONMENT || 'development',
-    otlpEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || DEFAULT_OTEL_COLLECTOR,
-    logLevel = (process.env.LOG_LEVEL as any) || 'info',
+    otlpEndpoint,
+    logLevel,
+    logLevels: {
+      modules: moduleLevels,
+      ttlMs: logLevelTtlMs = 15 * 60 * 1000,
+      signal: logLevelSignal = environment === 'development' ? false : 'SIGUSR2',
+    } = {},
     metricsIntervalMs = 5000, // 5 seconds per Groundcover guide
+    metricViews,
+    redaction,
+    contextFields,
+    serverSpans = 'instrumentation',
+    instrumentations: instrumentationOptions,
+    sampling,
+    tailSampling,
+    exporter,
+    logs: {
+      stdout: logStdout = true,
+      otel: logOtel = process.env.OTEL_LOGS_EXPORTER === 'otlp',
+    } = {},
   } = options;
 
   serviceName = svcName;
 
+  // 0. Install redaction policy (used by logger, plugin and HTTP client) and log levels
+  configureRedaction(redaction);
+  configureContextFields(contextFields);
+  const levelSpec = parseLogLevelSpec(process.env.LOG_LEVEL);
+  const level = logLevel ?? levelSpec.level ?? 'info';
+  configureLogLevels(level, { ...levelSpec.modules, ...moduleLevels });
+  levelOverrideTtlMs = logLevelTtlMs;
+
   // 1. Create Resource (attached to all telemetry)
   const resource = new Resource({
     [ATTR_SERVICE_NAME]: serviceName,
@@ -136,38 +281,114 @@ export function init(options: InitOptions): void {
     'deployment.environment': environment,
   });
 
-  // 2. Setup Metrics Exporter (per Groundcover guide)
-  const metricExporter = new OTLPMetricExporter({ url: otlpEndpoint });
-  const metricReader = new PeriodicExportingMetricReader({
-    exporter: metricExporter,
-    exportIntervalMillis: metricsIntervalMs,
-  });
+  // 2. Create exporters for the configured protocol (OTLP gRPC by default)
+  const { protocol, target, traceExporter, metricExporter, logExporter } = createExporters(
+    exporter,
+    otlpEndpoint
+  );
+
+  // 3. Setup Metrics (per Groundcover guide), with the configured views
+  const views = createMetricViews(metricViews);
+  configureMetricViews(metricViews);
   meterProvider = new MeterProvider({
     resource,
-    readers: [metricReader],
+    views,
+    readers: metricExporter
+      ? [
+          new PeriodicExportingMetricReader({
+            exporter: metricExporter,
+            exportIntervalMillis: metricsIntervalMs,
+          }),
+        ]
+      : [],
   });
   metrics.setGlobalMeterProvider(meterProvider);
 
-  // 3. Setup Trace Exporter
-  const traceExporter = new OTLPTraceExporter({ url: otlpEndpoint });
-
-  // 4. Initialize NodeSDK with auto-instrumentation
+  // 4. Initialize NodeSDK with sampling and auto-instrumentation (defaults + overrides + env vars)
+  const sampler = createSampler(sampling);
+  const spanProcessors: SpanProcessor[] = [];
+  if (traceExporter) {
+    let spanProcessor: SpanProcessor = new BatchSpanProcessor(traceExporter);
+    if (sampling?.keepErrors) {
+      spanProcessor = new KeepErrorsSpanProcessor(spanProcessor);
+    }
+    if (tailSampling) {
+      spanProcessor = new TailSamplingSpanProcessor(spanProcessor, tailSampling, getMeter(serviceName));
+    }
+    spanProcessors.push(spanProcessor);
+  } else {
+    // Still register the tracer provider so trace context and log correlation work
+    spanProcessors.push(new NoopSpanProcessor());
+  }
+  const instrumentations = buildInstrumentations(instrumentationOptions, serverSpans);
   sdk = new NodeSDK({
     resource,
-    traceExporter,
-    instrumentations: [
-      getNodeAutoInstrumentations({
-        // Disable fs instrumentation (too noisy)
-        '@opentelemetry/instrumentation-fs': { enabled: false },
-      }),
-    ],
+    sampler,
+    spanProcessors,
+    // Always explicit, so the SDK does not set up its own log exporter from the environment
+    logRecordProcessors:
+      logOtel && logExporter ? [new BatchLogRecordProcessor(logExporter)] : [],
+    instrumentations,
   });
 
   sdk.start();
 
-  // 5. Setup Pino logger with trace context injection
-  baseLogger = pino({
-    level: logLevel,
+  // 5. Setup Pino logger with trace context injection and redaction
+  const destinations: pino.DestinationStream[] = [];
+  if (logStdout) {
+    destinations.push(
+      environment === 'development'
+        ? pino.transport({ target: 'pino-pretty', options: { colorize: true } })
+        : pino.destination(1)
+    );
+  }
+  if (logOtel) {
+    destinations.push(createOtelLogStream());
+  }
+  baseLogger = createBaseLogger(level, serviceVersion, environment, destinations);
+  if (logLevelSignal) {
+    installLevelSignal(logLevelSignal);
+  }
+
+  baseLogger.info(
+    {
+      exporter: protocol,
+      endpoint: target,
+      metricsInterval: `${metricsIntervalMs}ms`,
+      metricViews: metricViews?.map((view) => view.instrument),
+      logs: { stdout: logStdout, otel: logOtel },
+      logLevel: level,
+      logLevelSignal,
+      serverSpans,
+      sampler: sampler.toString(),
+      tailSampling: tailSampling !== undefined,
+      instrumentations: instrumentations.map((i) => i.instrumentationName),
+    },
+    `OpenTelemetry initialized.`
+  );
+
+  initialized = true;
+  flushBufferedLogs(baseLogger);
+}
+
+/**
+ * Pino logger with trace context injection, redaction and error serialization, writing to every destination.
+ */
+function createBaseLogger(
+  level: LogLevel,
+  serviceVersion: string,
+  environment: string,
+  destinations: pino.DestinationStream[]
+): pino.Logger {
+  const options: pino.LoggerOptions = {
+    level,
+    enabled: destinations.length > 0,
+    redact: getPinoRedactOptions(),
+    // Stacks, cause chains, AggregateError members and Axios error summaries
+    serializers: {
+      err: serializeError,
+      error: serializeError,
+    },
     base: {
       service: serviceName,
       version: serviceVersion,
@@ -180,6 +401,7 @@ export function init(options: InitOptions): void {
       const spanContext = span?.spanContext();
 
       return {
+        ...loggedContextFields(ctx?.fields),
         traceId: spanContext?.traceId || ctx?.traceId,
         spanId: spanContext?.spanId || ctx?.spanId,
         correlationId: ctx?.correlationId,
@@ -187,39 +409,243 @@ export function init(options: InitOptions): void {
     },
     formatters: {
       level: (label) => ({ level: label }),
+      log: (obj) => redactObject(obj) as Record<string, unknown>,
     },
-    transport:
-      environment === 'development'
-        ? { target: 'pino-pretty', options: { colorize: true } }
-        : undefined,
-  });
-
-  baseLogger.info(
-    {
-      endpoint: otlpEndpoint,
-      metricsInterval: `${metricsIntervalMs}ms`,
+    hooks: {
+      // Messages and interpolation args bypass formatters.log
+      logMethod(args, method) {
+        const redacted = args.map((arg) => (typeof arg === 'string' ? redactString(arg) : arg));
+        return method.apply(this, redacted as Parameters<typeof method>);
+      },
     },
-    `OpenTelemetry initialized. Sending to OTEL Collector.`
+  };
+
+  return pino(
+    options,
+    destinations.length === 1
+      ? destinations[0]
+      : // The logger itself filters by level, which can change at runtime
+        pino.multistream(destinations.map((stream) => ({ stream, level: 'trace' as pino.Level })))
   );
+}
+
+// -----------------------------------------------------------------------------
+// Test Support
+// -----------------------------------------------------------------------------
 
+/**
+ * Mark the module initialized with a logger writing to `destination`.
+ * Used by createTestObservability(); a later init() call is skipped.
+ */
+export function installTestLogger(
+  name: string,
+  level: LogLevel,
+  destination: pino.DestinationStream
+): void {
+  serviceName = name;
+  configureLogLevels(level);
+  baseLogger = createBaseLogger(level, '0.0.0-test', 'test', [destination]);
   initialized = true;
+  flushBufferedLogs(baseLogger);
+}
+
+/**
+ * Undo installTestLogger() so init() or createTestObservability() can run again.
+ */
+export function resetTestLogger(): void {
+  serviceName = 'unknown';
+  baseLogger = undefined;
+  initialized = false;
+  configureLogLevels('info');
 }
 
 // -----------------------------------------------------------------------------
 // Logger API
 // -----------------------------------------------------------------------------
 
+/**
+ * pino-style log method. Extra args fill printf-style placeholders in `msg` (%s, %d, %o).
+ */
+export interface LogFn {
+  (msg: string, ...args: unknown[]): void;
+  (err: Error, msg?: string, ...args: unknown[]): void;
+  (obj: object, msg?: string, ...args: unknown[]): void;
+}
+
+export interface Logger extends Record<LogLevel, LogFn> {
+  /**
+   * Logger adding `bindings` to every record. Keeps trace context injection and
+   * redaction, and works before init() like the root logger.
+   */
+  child(bindings: Record<string, unknown>): Logger;
+
+  /**
+   * Whether a record at `level` would be written (always true before init()).
+   */
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+// Records kept until init(); the oldest are dropped beyond this
+const MAX_BUFFERED_LOGS = 1000;
+
+interface BufferedLog {
+  write: (base: pino.Logger) => void;
+  store?: RequestContext;
+}
+
+let bufferedLogs: BufferedLog[] = [];
+let droppedLogs = 0;
+
+/**
+ * Logger facade over the pino logger created by init(), with `bindings` applied as
+ * nested children. Calls made before init() are buffered.
+ */
+function createLogger(bindings: Record<string, unknown>[]): Logger {
+  let resolved: { base: pino.Logger; logger: pino.Logger } | undefined;
+
+  // Innermost `module` binding selects the per-module level
+  const module = bindings.reduce<string | undefined>(
+    (current, b) => (typeof b.module === 'string' ? b.module : current),
+    undefined
+  );
+
+  // pino child for the current base logger (re-created after init() or a test reset)
+  const resolve = (base: pino.Logger): pino.Logger => {
+    if (resolved?.base !== base) {
+      resolved = { base, logger: bindings.reduce((parent, b) => parent.child(b), base) };
+    }
+    return resolved.logger;
+  };
+
+  const write = (base: pino.Logger, level: LogLevel, args: unknown[]) => {
+    const target = resolve(base);
+    const effective = resolveLogLevel(module);
+    if (target.level !== effective) target.level = effective;
+    (target[level] as (...args: unknown[]) => void).apply(target, args);
+  };
+
+  const methods = {} as Record<LogLevel, LogFn>;
+  for (const level of LOG_LEVELS) {
+    methods[level] = ((...args: unknown[]) => {
+      if (baseLogger) {
+        write(baseLogger, level, args);
+      } else {
+        bufferLog({ write: (base) => write(base, level, args), store: als.getStore() });
+      }
+    }) as LogFn;
+  }
+
+  return {
+    ...methods,
+    child: (childBindings) => createLogger([...bindings, childBindings]),
+    isLevelEnabled: (level) =>
+      baseLogger ? LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(resolveLogLevel(module)) : true,
+  };
+}
+
+function bufferLog(entry: BufferedLog): void {
+  if (bufferedLogs.length >= MAX_BUFFERED_LOGS) {
+    bufferedLogs.shift();
+    droppedLogs++;
+  }
+  bufferedLogs.push(entry);
+}
+
+/**
+ * Write the records logged before init(), in their original request context.
+ */
+function flushBufferedLogs(base: pino.Logger): void {
+  const entries = bufferedLogs;
+  const dropped = droppedLogs;
+  bufferedLogs = [];
+  droppedLogs = 0;
+
+  if (dropped > 0) {
+    base.warn({ dropped }, 'Logs written before init() were dropped (buffer full)');
+  }
+  for (const { write, store } of entries) {
+    if (store) {
+      als.run(store, () => write(base));
+    } else {
+      write(base);
+    }
+  }
+}
+
 /**
  * Structured logger with automatic trace context injection.
  * All logs include traceId, spanId, and correlationId when available.
+ *
+ * @example
+ *   logger.info('Service started');
+ *   logger.info({ reportId }, 'Creating report');
+ *   logger.error(err, 'Failed to create report');
+ *   logger.error({ err, reportId }, 'Failed to create report');
+ *   logger.info('Processed %d reports', count);
+ *
+ *   const reportLogger = logger.child({ module: 'reports' });
+ */
+export const logger: Logger = createLogger([]);
+
+// -----------------------------------------------------------------------------
+// Log Levels
+// -----------------------------------------------------------------------------
+
+/**
+ * Change the log level at runtime, for all loggers or for one module
+ * (`logger.child({ module })`). The change reverts after `ttlMs`
+ * (default: `logLevels.ttlMs` from init()).
+ *
+ * @example
+ *   setLogLevel('debug', { module: 'http-client', ttlMs: 10 * 60 * 1000 });
  */
-export const logger = {
-  info: (obj: object, msg?: string) => baseLogger?.info(obj, msg),
-  error: (obj: object, msg?: string) => baseLogger?.error(obj, msg),
-  warn: (obj: object, msg?: string) => baseLogger?.warn(obj, msg),
-  debug: (obj: object, msg?: string) => baseLogger?.debug(obj, msg),
-  child: (bindings: object) => baseLogger?.child(bindings),
-};
+export function setLogLevel(level: LogLevel, options: { module?: string; ttlMs?: number } = {}): void {
+  if (!isLogLevel(level)) {
+    throw new Error(`Unknown log level '${level}' (expected one of: ${LOG_LEVELS.join(', ')})`);
+  }
+
+  const { module, ttlMs = levelOverrideTtlMs } = options;
+  const previousLevel = resolveLogLevel(module);
+
+  setLevelOverride(level, module, ttlMs, () =>
+    logLevelChange({ targetModule: module, logLevel: resolveLogLevel(module) }, 'Log level override expired')
+  );
+  logLevelChange(
+    { targetModule: module, previousLevel, logLevel: level, ttlMs: ttlMs > 0 ? ttlMs : undefined },
+    'Log level changed'
+  );
+}
+
+/**
+ * Remove a runtime level change made by setLogLevel(), for all loggers or for one module.
+ */
+export function resetLogLevel(module?: string): void {
+  if (clearLevelOverride(module)) {
+    logLevelChange({ targetModule: module, logLevel: resolveLogLevel(module) }, 'Log level override removed');
+  }
+}
+
+/**
+ * Level changes are written whatever the configured levels, so they are always visible.
+ */
+function logLevelChange(fields: Record<string, unknown>, msg: string): void {
+  baseLogger?.child({ module: 'log-levels' }, { level: 'info' }).info(fields, msg);
+}
+
+/**
+ * Toggle debug for all loggers on `signal` (e.g. `kill -USR2 <pid>`).
+ */
+function installLevelSignal(signal: NodeJS.Signals): void {
+  const handler = () => {
+    if (getGlobalOverride() === 'debug') {
+      resetLogLevel();
+    } else {
+      setLogLevel('debug');
+    }
+  };
+  process.on(signal, handler);
+  levelSignal = { signal, handler };
+}
 
 // -----------------------------------------------------------------------------
 // Tracer API
@@ -277,9 +703,46 @@ export function getRequestContext(): RequestContext | undefined {
 
 /**
  * Run a function with a specific context (for manual context propagation).
+ * Allow-listed fields of `ctx` become the baggage of the active OTEL context.
  */
 export function runWithContext<T>(ctx: RequestContext, fn: () => T): T {
-  return als.run(ctx, fn);
+  return context.with(withContextBaggage(context.active(), ctx), () => als.run(ctx, fn));
+}
+
+/**
+ * Set a context field for the rest of the current request (or runWithContext() scope).
+ * It is added to logs, set as its span attribute on the active span if configured, and
+ * propagated as W3C Baggage (plus its header with createHttpClient) if allow-listed.
+ * No-op outside a request context.
+ *
+ * @example
+ *   setContextField('tenantId', auth.tenantId);
+ */
+export function setContextField<K extends ContextFieldName>(name: K, value: ContextFields[K]): void {
+  const store = als.getStore();
+  if (!store) return;
+
+  // The request's baggage reads the store, so an allow-listed field propagates from now on
+  store.fields = { ...store.fields, [name]: value };
+
+  const spanAttribute = getContextFieldConfig(name)?.spanAttribute;
+  if (spanAttribute && value) {
+    trace.getActiveSpan()?.setAttribute(spanAttribute, value);
+  }
+}
+
+/**
+ * Get a context field of the current request.
+ */
+export function getContextField<K extends ContextFieldName>(name: K): ContextFields[K] | undefined {
+  return als.getStore()?.fields?.[name];
+}
+
+/**
+ * Get all context fields of the current request.
+ */
+export function getContextFields(): ContextFields {
+  return { ...als.getStore()?.fields };
 }
 
 /**
@@ -308,6 +771,11 @@ export function getTraceContext(): { traceId?: string; spanId?: string } {
 export async function shutdown(): Promise<void> {
   if (!initialized) return;
 
+  if (levelSignal) {
+    process.off(levelSignal.signal, levelSignal.handler);
+    levelSignal = undefined;
+  }
+
   try {
     await meterProvider?.shutdown();
     await sdk?.shutdown();
@@ -318,4 +786,4 @@ export async function shutdown(): Promise<void> {
 }
 
 // Export for convenience
-export { SpanStatusCode };
+export { SpanKind, SpanStatusCode };
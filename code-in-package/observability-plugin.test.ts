@@ -0,0 +1,162 @@
+/**
+ * observabilityPlugin request context tests.
+ *
+ * Handlers read the request context (ALS store) and the active OTEL span after awaits,
+ * setImmediate, body parsing and while streaming a response; both must match the
+ * request's SERVER span.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import Fastify, { FastifyInstance } from 'fastify';
+import { SpanKind, trace } from '@opentelemetry/api';
+import { getRequestContext } from './observability-index';
+import { observabilityPlugin } from './observability-plugin';
+import { TestObservability, createTestObservability } from './testing';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+interface SeenContext {
+  correlationId?: string;
+  traceId?: string;
+  spanId?: string;
+  activeSpanId?: string;
+}
+
+function seenContext(): SeenContext {
+  const reqCtx = getRequestContext();
+  return {
+    correlationId: reqCtx?.correlationId,
+    traceId: reqCtx?.traceId,
+    spanId: reqCtx?.spanId,
+    activeSpanId: trace.getActiveSpan()?.spanContext().spanId,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('observabilityPlugin request context', () => {
+  let obs: TestObservability;
+  let app: FastifyInstance;
+
+  before(async () => {
+    obs = createTestObservability();
+    app = Fastify();
+    await app.register(observabilityPlugin, { serviceName: 'test-service', spanMode: 'create' });
+
+    app.get('/await', async () => {
+      await sleep(5);
+      await Promise.resolve();
+      await sleep(1);
+      return seenContext();
+    });
+
+    app.get('/immediate', () => new Promise((resolve) => setImmediate(() => resolve(seenContext()))));
+
+    app.get('/stream', (request, reply) => {
+      async function* chunks() {
+        for (let i = 0; i < 3; i++) {
+          await sleep(1);
+          yield `${JSON.stringify(seenContext())}\n`;
+        }
+      }
+      reply.type('application/x-ndjson').send(Readable.from(chunks()));
+    });
+
+    app.post<{ Body: { value: string } }>('/body', async (request) => {
+      await sleep(1);
+      return { ...seenContext(), value: request.body.value };
+    });
+
+    await app.ready();
+  });
+
+  afterEach(() => obs.reset());
+
+  after(async () => {
+    await app.close();
+    await obs.shutdown();
+  });
+
+  /**
+   * Assert a handler saw the request's correlation ID and SERVER span, both in the
+   * request context and as the active span.
+   */
+  function assertRequestContext(seen: SeenContext, route: string, correlationId: string): void {
+    const span = obs.expectSpan({ name: route, kind: SpanKind.SERVER });
+    const { traceId, spanId } = span.spanContext();
+
+    assert.deepEqual(seen, { correlationId, traceId, spanId, activeSpanId: spanId });
+  }
+
+  it('keeps the context across awaits', async () => {
+    const response = await app.inject({ method: 'GET', url: '/await', headers: { 'x-request-id': 'req-await' } });
+
+    assert.equal(response.statusCode, 200);
+    assertRequestContext(response.json(), 'GET /await', 'req-await');
+  });
+
+  it('keeps the context in setImmediate callbacks', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/immediate',
+      headers: { 'x-request-id': 'req-immediate' },
+    });
+
+    assert.equal(response.statusCode, 200);
+    assertRequestContext(response.json(), 'GET /immediate', 'req-immediate');
+  });
+
+  it('keeps the context while streaming the response body', async () => {
+    const response = await app.inject({ method: 'GET', url: '/stream', headers: { 'x-request-id': 'req-stream' } });
+
+    assert.equal(response.statusCode, 200);
+    const chunks = response.body.trim().split('\n').map((line) => JSON.parse(line) as SeenContext);
+    assert.equal(chunks.length, 3);
+    for (const seen of chunks) {
+      assertRequestContext(seen, 'GET /stream', 'req-stream');
+    }
+  });
+
+  it('keeps the context after body parsing', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/body',
+      headers: { 'x-request-id': 'req-body' },
+      payload: { value: 'parsed' },
+    });
+
+    assert.equal(response.statusCode, 200);
+    const { value, ...seen } = response.json();
+    assert.equal(value, 'parsed');
+    assertRequestContext(seen, 'POST /body', 'req-body');
+  });
+
+  it('gives concurrent requests their own context', async () => {
+    const responses = await Promise.all(
+      ['req-a', 'req-b', 'req-c'].map((id) =>
+        app.inject({ method: 'GET', url: '/await', headers: { 'x-request-id': id } })
+      )
+    );
+
+    const spans = obs.findSpans({ name: 'GET /await', kind: SpanKind.SERVER });
+    assert.equal(spans.length, 3);
+    responses.forEach((response, i) => {
+      const seen: SeenContext = response.json();
+      const span = spans.find((candidate) => candidate.spanContext().spanId === seen.spanId);
+
+      assert.ok(span, `no SERVER span for ${seen.correlationId}`);
+      assert.equal(seen.correlationId, ['req-a', 'req-b', 'req-c'][i]);
+      assert.equal(seen.activeSpanId, seen.spanId);
+      assert.equal(seen.traceId, span.spanContext().traceId);
+    });
+  });
+});
@@ -3,20 +3,40 @@
  *
  * Automatically handles:
  * - Correlation ID extraction/generation (x-request-id header)
+ * - Context fields (tenantId, userId, ...) from configured headers or W3C Baggage
  * - OpenTelemetry trace context propagation
- * - Request/response logging with trace context
+ * - One SERVER span per request: enriches the auto-instrumentation's span or creates its own
+ * - Request context (AsyncLocalStorage + active span) bound for the whole request lifecycle
+ * - Request/response logging with trace context (URLs and errors redacted)
  * - HTTP server metrics (request count, duration)
+ * - Optional admin route to read and change log levels at runtime
  *
  * Usage:
  *   import { observabilityPlugin } from '@commerceiq/neoiq-node-foundation';
  *   app.register(observabilityPlugin, { serviceName: 'my-service' });
  */
 
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
 import fp from 'fastify-plugin';
 import { randomUUID } from 'crypto';
-import { trace, context, propagation, SpanStatusCode, Span } from '@opentelemetry/api';
-import { als, logger, getMeter, getRequestContext } from './observability-index';
+import { AsyncResource } from 'async_hooks';
+import { trace, context, propagation, SpanStatusCode, Span, SpanKind } from '@opentelemetry/api';
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import {
+  als,
+  logger,
+  getMeter,
+  getRequestContext,
+  resetLogLevel,
+  setLogLevel,
+  LogLevel,
+} from './observability-index';
+import { getLogLevels, isLogLevel } from './log-levels';
+import { contextSpanAttributes, extractContextFields, withContextBaggage } from './context-fields';
+import { redactError, redactString, redactUrl } from './redaction';
+
+// Request logs are tagged with their module for per-module levels
+const log = logger.child({ module: 'observability-plugin' });
 
 // -----------------------------------------------------------------------------
 // Types
@@ -39,13 +59,40 @@ interface PluginOptions {
    * Routes to exclude from tracing/metrics (e.g., ['/health']).
    */
   excludeRoutes?: string[];
+
+  /**
+   * Server span handling (default: 'auto').
+   * - 'auto': enrich the active SERVER span (http auto-instrumentation) if there is one, else create one
+   * - 'create': always create the plugin's own SERVER span
+   */
+  spanMode?: 'auto' | 'create';
+
+  /**
+   * Path of an admin route for runtime log levels, e.g. '/admin/log-level' (default: off,
+   * no route is registered).
+   * - GET: current levels and overrides
+   * - PUT { level, module?, ttlMs? }: setLogLevel()
+   * - DELETE ?module=: resetLogLevel()
+   * The plugin does not authenticate the route: anyone who reaches it can turn on debug
+   * logging. Callers must add auth (e.g. an onRequest hook for this path) or serve it on an
+   * internal-only port.
+   */
+  logLevelRoute?: string;
+}
+
+interface LogLevelBody {
+  level?: LogLevel;
+  module?: unknown;
+  ttlMs?: number;
 }
 
 // Extend FastifyRequest to store context
 declare module 'fastify' {
   interface FastifyRequest {
     __span?: Span;
+    __ownsSpan?: boolean;
     __requestContext?: RequestContext;
+    __asyncResource?: AsyncResource;
   }
 }
 
@@ -54,7 +101,12 @@ declare module 'fastify' {
 // -----------------------------------------------------------------------------
 
 const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
-  const { serviceName, excludeRoutes = ['/health', '/health/'] } = options;
+  const {
+    serviceName,
+    excludeRoutes = ['/health', '/health/'],
+    spanMode = 'auto',
+    logLevelRoute,
+  } = options;
 
   const tracer = trace.getTracer('neoiq-foundation');
 
@@ -87,24 +139,39 @@ const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
     // 2. Set correlation ID in response header
     reply.header('x-request-id', correlationId);
 
-    // 3. Extract parent trace context from incoming headers (W3C traceparent)
+    // 3. Extract parent trace context (W3C traceparent) and context fields from incoming headers
     const parentContext = propagation.extract(context.active(), request.headers);
+    const fields = extractContextFields(request.headers, parentContext);
 
-    // 4. Start a new span for this request
-    const span = tracer.startSpan(
-      `${request.method} ${request.routeOptions?.url || request.url}`,
-      {
-        kind: 1, // SpanKind.SERVER
-        attributes: {
-          'http.method': request.method,
-          'http.url': request.url,
-          'http.route': request.routeOptions?.url || request.url,
-          'http.user_agent': request.headers['user-agent'] || '',
-          'http.correlation_id': correlationId,
+    // 4. Enrich the active SERVER span, or start a new span for this request
+    const url = redactUrl(request.url);
+    const route = request.routeOptions?.url || request.url;
+    const serverSpan = spanMode === 'auto' ? getActiveServerSpan() : undefined;
+    const span =
+      serverSpan ??
+      tracer.startSpan(
+        `${request.method} ${route}`,
+        {
+          kind: SpanKind.SERVER,
+          attributes: {
+            'http.method': request.method,
+            'http.url': url,
+            'http.route': route,
+            'http.user_agent': request.headers['user-agent'] || '',
+          },
         },
-      },
-      parentContext
-    );
+        parentContext
+      );
+
+    // Unsampled requests skip attribute work; their span drops it anyway
+    if (span.isRecording()) {
+      span.updateName(`${request.method} ${route}`);
+      span.setAttributes({
+        'http.route': route,
+        'http.correlation_id': correlationId,
+        ...contextSpanAttributes(fields),
+      });
+    }
 
     // 5. Get trace/span IDs
     const spanContext = span.spanContext();
@@ -120,27 +187,51 @@ const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
     };
 
     request.__span = span;
+    request.__ownsSpan = !serverSpan;
     request.__requestContext = requestContext;
 
-    // 7. Run in AsyncLocalStorage context
-    als.run({ correlationId, traceId, spanId }, () => {
-      logger.info(
-        {
-          correlationId,
-          traceId,
-          spanId,
-          method: request.method,
-          url: request.url,
-          route: request.routeOptions?.url,
-          userAgent: request.headers['user-agent'],
-        },
-        'Request received'
-      );
-
-      done();
+    // 7. Bind ALS store + active span for the whole request lifecycle.
+    //    The AsyncResource captures both; hooks re-enter it because Fastify runs
+    //    body parsing (and everything after it) from the socket's async context.
+    //    Incoming baggage is swapped for the allow-listed fields, so only those propagate.
+    const store = { correlationId, traceId, spanId, fields };
+    const activeContext = withContextBaggage(
+      trace.setSpan(serverSpan ? context.active() : parentContext, span),
+      store
+    );
+    context.with(activeContext, () => {
+      als.run(store, () => {
+        request.__asyncResource = new AsyncResource('neoiq-request');
+
+        log.info(
+          {
+            correlationId,
+            traceId,
+            spanId,
+            method: request.method,
+            url,
+            route: request.routeOptions?.url,
+            userAgent: request.headers['user-agent'],
+          },
+          'Request received'
+        );
+
+        request.__asyncResource.runInAsyncScope(done);
+      });
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // PRE VALIDATION / PRE HANDLER - Restore request context after body parsing
+  // ---------------------------------------------------------------------------
+  fastify.addHook('preValidation', (request, reply, done) => {
+    runInRequestScope(request, done);
+  });
+
+  fastify.addHook('preHandler', (request, reply, done) => {
+    runInRequestScope(request, done);
+  });
+
   // ---------------------------------------------------------------------------
   // ON RESPONSE - End span, record metrics
   // ---------------------------------------------------------------------------
@@ -162,15 +253,15 @@ const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
     };
 
     // Run in context for proper log correlation
-    als.run({ correlationId: ctx.correlationId, traceId: ctx.traceId, spanId: ctx.spanId }, () => {
+    runInRequestScope(request, () => {
       // Log response
-      logger.info(
+      log.info(
         {
           correlationId: ctx.correlationId,
           traceId: ctx.traceId,
           spanId: ctx.spanId,
           method: request.method,
-          url: request.url,
+          url: redactUrl(request.url),
           route,
           statusCode: reply.statusCode,
           durationMs,
@@ -186,8 +277,8 @@ const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
         requestErrors.add(1, labels);
       }
 
-      // End span
-      if (span) {
+      // End span (an enriched auto-instrumentation span is ended by its instrumentation)
+      if (span?.isRecording() && request.__ownsSpan) {
         span.setStatus({
           code: reply.statusCode < 400 ? SpanStatusCode.OK : SpanStatusCode.ERROR,
         });
@@ -212,30 +303,99 @@ const plugin: FastifyPluginAsync<PluginOptions> = async (fastify, options) => {
       return;
     }
 
-    als.run({ correlationId: ctx.correlationId, traceId: ctx.traceId, spanId: ctx.spanId }, () => {
-      logger.error(
+    runInRequestScope(request, () => {
+      log.error(
         {
           correlationId: ctx.correlationId,
           traceId: ctx.traceId,
           spanId: ctx.spanId,
           method: request.method,
-          url: request.url,
-          error: error.message,
-          stack: error.stack,
+          url: redactUrl(request.url),
+          error: redactString(error.message),
+          stack: error.stack && redactString(error.stack),
         },
         'Request failed'
       );
 
-      if (span) {
-        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
-        span.recordException(error);
+      if (span?.isRecording()) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: redactString(error.message) });
+        span.recordException(redactError(error));
       }
 
       done();
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // ADMIN - Runtime log levels
+  // ---------------------------------------------------------------------------
+  if (logLevelRoute) {
+    fastify.get(logLevelRoute, async () => getLogLevels());
+
+    fastify.put<{ Body: LogLevelBody }>(logLevelRoute, async (request, reply) => {
+      const { level, module, ttlMs } = request.body ?? {};
+      if (!isLogLevel(level)) {
+        return reply.status(400).send({ error: `Unknown log level '${level}'` });
+      }
+      if (!isModuleName(module)) {
+        return reply.status(400).send({ error: 'module must be a non-empty string' });
+      }
+      if (ttlMs !== undefined && (typeof ttlMs !== 'number' || ttlMs < 0)) {
+        return reply.status(400).send({ error: 'ttlMs must be a non-negative number' });
+      }
+
+      setLogLevel(level, { module, ttlMs });
+      return getLogLevels();
+    });
+
+    fastify.delete<{ Querystring: { module?: unknown } }>(logLevelRoute, async (request, reply) => {
+      const { module } = request.query;
+      if (!isModuleName(module)) {
+        return reply.status(400).send({ error: 'module must be a single non-empty string' });
+      }
+
+      resetLogLevel(module);
+      return getLogLevels();
+    });
+  }
 };
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * The active SERVER span (e.g. from the http auto-instrumentation).
+ * The API does not expose span kind; SDK spans carry it as ReadableSpan. A span without
+ * a kind (e.g. an unsampled one) is not taken for the server span: the plugin starts its
+ * own, which inherits the unsampled decision from the active context.
+ */
+function getActiveServerSpan(): Span | undefined {
+  const span = trace.getActiveSpan();
+  return span && isServerSpan(span) ? span : undefined;
+}
+
+function isServerSpan(span: Span): span is Span & Pick<ReadableSpan, 'kind'> {
+  return 'kind' in span && span.kind === SpanKind.SERVER;
+}
+
+// An optional module name for the log level route: absent, or a non-empty string
+function isModuleName(module: unknown): module is string | undefined {
+  return module === undefined || (typeof module === 'string' && module.length > 0);
+}
+
+/**
+ * Run fn inside the request's captured async scope (ALS store + active span).
+ * Excluded routes have no scope and run as-is.
+ */
+function runInRequestScope(request: FastifyRequest, fn: () => void): void {
+  if (request.__asyncResource) {
+    request.__asyncResource.runInAsyncScope(fn);
+  } else {
+    fn();
+  }
+}
+
 // Export plugin
 export const observabilityPlugin = fp(plugin, {
   name: 'neoiq-observability',
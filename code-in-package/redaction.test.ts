@@ -0,0 +1,178 @@
+/**
+ * Redaction policy tests: patterns, URLs, headers, log records and errors.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  configureRedaction,
+  getPinoRedactOptions,
+  redactError,
+  redactHeaders,
+  redactObject,
+  redactString,
+  redactUrl,
+} from './redaction';
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('redaction', () => {
+  afterEach(() => configureRedaction());
+
+  describe('redactString', () => {
+    it('redacts bearer tokens and emails', () => {
+      assert.equal(
+        redactString('auth Bearer eyJhbGciOi.abc-123_x= for jane.doe+ops@example.com'),
+        'auth [REDACTED] for [REDACTED]'
+      );
+    });
+
+    it('redacts Luhn-valid card numbers only', () => {
+      assert.equal(redactString('card 4111 1111 1111 1111 ok'), 'card [REDACTED] ok');
+      assert.equal(redactString('card 4111-1111-1111-1111'), 'card [REDACTED]');
+      assert.equal(redactString('order 4111111111111112'), 'order 4111111111111112');
+    });
+
+    it('redacts every match, call after call', () => {
+      const text = 'a@example.com b@example.com';
+
+      assert.equal(redactString(text), '[REDACTED] [REDACTED]');
+      assert.equal(redactString(text), '[REDACTED] [REDACTED]');
+    });
+
+    it('applies custom patterns, with or without the g flag, and a custom censor', () => {
+      configureRedaction({ patterns: [/ret_[a-z0-9]+/], censor: '***' });
+
+      assert.equal(redactString('ret_abc and ret_def, x@example.com'), '*** and ***, ***');
+    });
+
+    it('drops the built-in patterns with defaults: false', () => {
+      configureRedaction({ defaults: false, patterns: [/secret/] });
+
+      assert.equal(redactString('secret x@example.com'), '[REDACTED] x@example.com');
+    });
+  });
+
+  describe('redactUrl', () => {
+    it('redacts sensitive query parameter values, case-insensitively', () => {
+      assert.equal(
+        redactUrl('https://api.example.com/cb?code=1&Access_Token=abc&state=xyz'),
+        'https://api.example.com/cb?code=1&Access_Token=[REDACTED]&state=xyz'
+      );
+    });
+
+    it('matches percent-encoded parameter names and keeps the fragment', () => {
+      assert.equal(redactUrl('/login?to%6Ben=abc#section'), '/login?to%6Ben=[REDACTED]#section');
+    });
+
+    it('redacts configured parameters and patterns in the path', () => {
+      configureRedaction({ queryParams: ['sig'] });
+
+      assert.equal(
+        redactUrl('/users/jane@example.com/avatar?sig=s3cr3t&size=64'),
+        '/users/[REDACTED]/avatar?sig=[REDACTED]&size=64'
+      );
+    });
+
+    it('leaves URLs without sensitive data unchanged', () => {
+      assert.equal(redactUrl('/reports/42?page=2'), '/reports/42?page=2');
+      assert.equal(redactUrl('/reports/42'), '/reports/42');
+    });
+  });
+
+  describe('redactHeaders', () => {
+    it('redacts built-in and configured headers, case-insensitively', () => {
+      configureRedaction({ headers: ['X-Retailer-Token'] });
+      const headers = { Authorization: 'Bearer abc', 'x-retailer-token': 't', accept: 'application/json' };
+
+      assert.deepEqual(redactHeaders(headers), {
+        Authorization: '[REDACTED]',
+        'x-retailer-token': '[REDACTED]',
+        accept: 'application/json',
+      });
+      assert.equal(headers.Authorization, 'Bearer abc');
+    });
+  });
+
+  describe('redactObject', () => {
+    it('redacts header-named keys at any depth, URL fields and string values', () => {
+      const record = {
+        msg: 'login for jane@example.com',
+        req: { url: '/cb?token=abc', headers: { cookie: 'session=1', host: 'api' } },
+        items: [{ 'set-cookie': ['a=1'] }, 'x@example.com'],
+        count: 3,
+      };
+
+      assert.deepEqual(redactObject(record), {
+        msg: 'login for [REDACTED]',
+        req: { url: '/cb?token=[REDACTED]', headers: { cookie: '[REDACTED]', host: 'api' } },
+        items: [{ 'set-cookie': '[REDACTED]' }, '[REDACTED]'],
+        count: 3,
+      });
+    });
+
+    it('copies errors with redacted message, stack and cause', () => {
+      const cause = new Error('cause for a@example.com');
+      const error = Object.assign(new TypeError('failed for b@example.com', { cause }), {
+        authorization: 'Bearer x',
+      });
+
+      const copy = redactObject({ err: error }) as { err: TypeError & { authorization: string } };
+
+      assert.ok(copy.err instanceof TypeError);
+      assert.notEqual(copy.err, error);
+      assert.equal(copy.err.message, 'failed for [REDACTED]');
+      assert.ok(!copy.err.stack?.includes('b@example.com'));
+      assert.equal((copy.err.cause as Error).message, 'cause for [REDACTED]');
+      assert.equal(copy.err.authorization, '[REDACTED]');
+      assert.equal(error.message, 'failed for b@example.com');
+    });
+
+    it('leaves class instances other than errors as they are', () => {
+      const date = new Date(0);
+      const url = new URL('https://example.com/?token=abc');
+
+      const copy = redactObject({ date, url }) as { date: Date; url: URL };
+
+      assert.equal(copy.date, date);
+      assert.equal(copy.url, url);
+    });
+
+    it('stops descending past the depth limit', () => {
+      const levels: Record<string, unknown>[] = [{ email: 'deep@example.com' }];
+      for (let i = 0; i < 10; i++) levels.unshift({ child: levels[0] });
+
+      let copy = redactObject(levels[0]) as Record<string, unknown>;
+      for (let i = 0; i < 8; i++) copy = copy.child as Record<string, unknown>;
+
+      assert.equal(copy, levels[8]); // Returned as-is, not copied or redacted
+    });
+  });
+
+  describe('redactError', () => {
+    it('returns a redacted exception for errors and other values', () => {
+      const exception = redactError(new Error('token for a@example.com'));
+
+      assert.equal(typeof exception, 'object');
+      assert.deepEqual(
+        { ...(exception as object), stack: undefined },
+        { name: 'Error', message: 'token for [REDACTED]', stack: undefined }
+      );
+      assert.equal(redactError('plain a@example.com'), 'plain [REDACTED]');
+    });
+  });
+
+  describe('getPinoRedactOptions', () => {
+    it('returns the configured paths and censor, or undefined without paths', () => {
+      assert.equal(getPinoRedactOptions(), undefined);
+
+      configureRedaction({ paths: ['body.password'], censor: '***' });
+
+      assert.deepEqual(getPinoRedactOptions(), { paths: ['body.password'], censor: '***' });
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Sensitive data redaction.
+ *
+ * One policy, configured through `init({ redaction })`, applied consistently to:
+ * - Log records (pino paths, header-named keys, URL fields, every string value)
+ * - Span attributes set by observabilityPlugin and createHttpClient
+ * - Error messages and stacks recorded on spans
+ *
+ * Built-in defaults cover the authorization, cookie, set-cookie and x-api-key headers,
+ * common secret query parameters, bearer tokens, emails and card numbers.
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     redaction: {
+ *       headers: ['x-retailer-token'],
+ *       paths: ['body.password'],
+ *       queryParams: ['sig'],
+ *     },
+ *   });
+ */
+
+import { Exception } from '@opentelemetry/api';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface RedactionOptions {
+  /**
+   * Header names to redact, case-insensitive.
+   * Any log field with one of these names is redacted, wherever it is nested.
+   */
+  headers?: string[];
+
+  /**
+   * Extra pino JSON paths to redact in log records (e.g. 'body.password', 'users[*].ssn').
+   */
+  paths?: string[];
+
+  /**
+   * Query-string parameter names whose values are redacted in URLs, case-insensitive.
+   */
+  queryParams?: string[];
+
+  /**
+   * Patterns whose matches are replaced in every string (log values, messages, span attributes).
+   */
+  patterns?: RegExp[];
+
+  /**
+   * Keep the built-in headers, query parameters and patterns (default: true).
+   */
+  defaults?: boolean;
+
+  /**
+   * Replacement text (default: '[REDACTED]').
+   */
+  censor?: string;
+}
+
+interface Pattern {
+  regex: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+interface Policy {
+  headers: Set<string>;
+  paths: string[];
+  queryParams: Set<string>;
+  patterns: Pattern[];
+  censor: string;
+}
+
+// -----------------------------------------------------------------------------
+// Defaults
+// -----------------------------------------------------------------------------
+
+const DEFAULT_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key', 'proxy-authorization'];
+
+const DEFAULT_QUERY_PARAMS = [
+  'token',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'api_key',
+  'apikey',
+  'password',
+  'secret',
+  'client_secret',
+  'signature',
+];
+
+/**
+ * Built-in patterns, exported so services can reuse them when defaults are turned off.
+ */
+export const REDACTION_PATTERNS = {
+  bearerToken: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  cardNumber: /\b\d(?:[ -]?\d){12,18}\b/g,
+};
+
+const DEFAULT_PATTERNS: Pattern[] = [
+  { regex: REDACTION_PATTERNS.bearerToken },
+  { regex: REDACTION_PATTERNS.email },
+  // Only Luhn-valid digit runs, so timestamps and IDs survive
+  { regex: REDACTION_PATTERNS.cardNumber, accept: isLuhnValid },
+];
+
+// Log fields that hold URLs and get query-parameter redaction
+const URL_KEYS = new Set(['url', 'http.url', 'url.full', 'http.target', 'url.query']);
+
+const MAX_DEPTH = 8;
+
+// -----------------------------------------------------------------------------
+// Module State
+// -----------------------------------------------------------------------------
+
+let policy: Policy = buildPolicy({});
+
+/**
+ * Install the redaction policy. Called by init().
+ */
+export function configureRedaction(options: RedactionOptions = {}): void {
+  policy = buildPolicy(options);
+}
+
+/**
+ * pino `redact` option for the configured JSON paths (undefined when there are none).
+ */
+export function getPinoRedactOptions(): { paths: string[]; censor: string } | undefined {
+  return policy.paths.length > 0 ? { paths: policy.paths, censor: policy.censor } : undefined;
+}
+
+function buildPolicy(options: RedactionOptions): Policy {
+  const useDefaults = options.defaults !== false;
+  const lower = (values: string[]) => values.map((v) => v.toLowerCase());
+
+  return {
+    headers: new Set(lower([...(useDefaults ? DEFAULT_HEADERS : []), ...(options.headers ?? [])])),
+    paths: options.paths ?? [],
+    queryParams: new Set(
+      lower([...(useDefaults ? DEFAULT_QUERY_PARAMS : []), ...(options.queryParams ?? [])])
+    ),
+    patterns: [
+      ...(useDefaults ? DEFAULT_PATTERNS : []),
+      ...(options.patterns ?? []).map((regex) => ({ regex: withGlobalFlag(regex) })),
+    ],
+    censor: options.censor ?? '[REDACTED]',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Redaction
+// -----------------------------------------------------------------------------
+
+/**
+ * Replace every pattern match in a string.
+ */
+export function redactString(value: string): string {
+  let result = value;
+  for (const { regex, accept } of policy.patterns) {
+    regex.lastIndex = 0;
+    result = result.replace(regex, (match) => (!accept || accept(match) ? policy.censor : match));
+  }
+  return result;
+}
+
+/**
+ * Redact configured query parameter values, then patterns, in an absolute or relative URL.
+ */
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return redactString(url);
+
+  const hashStart = url.indexOf('#', queryStart);
+  const query = url.slice(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+  const redactedQuery = query
+    .split('&')
+    .map((pair) => {
+      const [key] = pair.split('=', 1);
+      return policy.queryParams.has(safeDecode(key).toLowerCase()) ? `${key}=${policy.censor}` : pair;
+    })
+    .join('&');
+
+  return redactString(
+    url.slice(0, queryStart + 1) + redactedQuery + (hashStart === -1 ? '' : url.slice(hashStart))
+  );
+}
+
+/**
+ * Copy of a header map with sensitive header values replaced.
+ */
+export function redactHeaders<T extends Record<string, unknown>>(headers: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = policy.headers.has(name.toLowerCase()) ? policy.censor : value;
+  }
+  return result as T;
+}
+
+/**
+ * Error as an OTEL exception with redacted message and stack, for span.recordException().
+ */
+export function redactError(error: unknown): Exception {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: redactString(error.message),
+      stack: error.stack ? redactString(error.stack) : undefined,
+    };
+  }
+  return redactString(String(error));
+}
+
+/**
+ * Deep copy of a log record with the policy applied.
+ * Errors are copied too, so their messages and stacks can be redacted.
+ */
+export function redactObject(value: unknown, key?: string, depth: number = 0): unknown {
+  if (key !== undefined && policy.headers.has(key.toLowerCase())) {
+    return policy.censor;
+  }
+  if (typeof value === 'string') {
+    return key !== undefined && URL_KEYS.has(key) ? redactUrl(value) : redactString(value);
+  }
+  if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (value instanceof Error) {
+    // Same prototype so pino's error serializer still reports the right type
+    const copy = Object.create(Object.getPrototypeOf(value));
+    for (const [k, v] of Object.entries(value)) {
+      copy[k] = redactObject(v, k, depth + 1);
+    }
+    copy.message = redactString(value.message);
+    copy.stack = value.stack && redactString(value.stack);
+    // Non-enumerable, so not picked up above
+    if (value.cause !== undefined) {
+      copy.cause = redactObject(value.cause, undefined, depth + 1);
+    }
+    if (value instanceof AggregateError) {
+      copy.errors = redactObject(value.errors, undefined, depth + 1);
+    }
+    return copy;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactObject(item, undefined, depth + 1));
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    result[k] = redactObject(v, k, depth + 1);
+  }
+  return result;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function withGlobalFlag(regex: RegExp): RegExp {
+  return regex.flags.includes('g') ? regex : new RegExp(regex.source, `${regex.flags}g`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,198 @@
+/**
+ * Head sampling tests: ratio, rules, rate limit, parent handling, environment defaults
+ * and exporting kept error spans.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Attributes, ROOT_CONTEXT, SpanKind, SpanStatusCode, TraceFlags, trace } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SamplingDecision,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { KeepErrorsSpanProcessor, SamplingOptions, createSampler } from './sampling';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+
+function decide(
+  options: SamplingOptions,
+  attributes: Attributes = {},
+  parentContext = ROOT_CONTEXT
+): SamplingDecision {
+  return createSampler(options).shouldSample(parentContext, TRACE_ID, 'span', SpanKind.SERVER, attributes, [])
+    .decision;
+}
+
+function remoteParent(sampled: boolean) {
+  return trace.setSpanContext(ROOT_CONTEXT, {
+    traceId: TRACE_ID,
+    spanId: 'b7ad6b7169203331',
+    traceFlags: sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+    isRemote: true,
+  });
+}
+
+const { RECORD_AND_SAMPLED, RECORD, NOT_RECORD } = SamplingDecision;
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('createSampler', () => {
+  it('samples everything by default', () => {
+    assert.equal(decide({}), RECORD_AND_SAMPLED);
+  });
+
+  it('applies the ratio', () => {
+    assert.equal(decide({ ratio: 0 }), NOT_RECORD);
+    assert.equal(decide({ ratio: 1 }), RECORD_AND_SAMPLED);
+  });
+
+  it('applies the first matching rule by route prefix, RegExp and method', () => {
+    const options: SamplingOptions = {
+      ratio: 1,
+      rules: [
+        { route: '/health', ratio: 0 },
+        { route: /^\/api\/nlq/, method: ['post'], ratio: 0 },
+        { method: 'DELETE', ratio: 0 },
+      ],
+    };
+
+    assert.equal(decide(options, { 'http.route': '/healthz' }), NOT_RECORD);
+    assert.equal(decide(options, { 'http.method': 'POST', 'http.route': '/api/nlq/query' }), NOT_RECORD);
+    assert.equal(decide(options, { 'http.method': 'GET', 'http.route': '/api/nlq/query' }), RECORD_AND_SAMPLED);
+    assert.equal(decide(options, { 'http.request.method': 'delete', 'url.path': '/api/reports/1' }), NOT_RECORD);
+    assert.equal(decide(options, { 'http.route': '/api/reports' }), RECORD_AND_SAMPLED);
+  });
+
+  it('matches rules against the path of full URLs and targets', () => {
+    const options: SamplingOptions = { rules: [{ route: '/health', ratio: 0 }] };
+
+    assert.equal(decide(options, { 'http.url': 'http://pod:3000/health?probe=1' }), NOT_RECORD);
+    assert.equal(decide(options, { 'http.target': '/health#x' }), NOT_RECORD);
+    assert.equal(decide(options, {}), RECORD_AND_SAMPLED); // Route rules need a path
+  });
+
+  it('samples at most rateLimit new traces per second', () => {
+    const sampler = createSampler({ rateLimit: 2 });
+    const decisions = Array.from(
+      { length: 4 },
+      () => sampler.shouldSample(ROOT_CONTEXT, TRACE_ID, 'span', SpanKind.SERVER, {}, []).decision
+    );
+
+    assert.deepEqual(decisions, [RECORD_AND_SAMPLED, RECORD_AND_SAMPLED, NOT_RECORD, NOT_RECORD]);
+  });
+
+  it('records unsampled root spans without sampling them with keepErrors', () => {
+    assert.equal(decide({ ratio: 0, keepErrors: true }), RECORD);
+  });
+
+  it("follows a remote parent's decision unless parentBased is false", () => {
+    assert.equal(decide({ ratio: 0 }, {}, remoteParent(true)), RECORD_AND_SAMPLED);
+    assert.equal(decide({ ratio: 1 }, {}, remoteParent(false)), NOT_RECORD);
+
+    assert.equal(decide({ ratio: 0, parentBased: false }, {}, remoteParent(true)), NOT_RECORD);
+    assert.equal(decide({ ratio: 1, parentBased: false }, {}, remoteParent(false)), RECORD_AND_SAMPLED);
+  });
+
+  describe('environment defaults', () => {
+    afterEach(() => {
+      delete process.env.OTEL_TRACES_SAMPLER;
+      delete process.env.OTEL_TRACES_SAMPLER_ARG;
+    });
+
+    it('reads always_off and traceidratio', () => {
+      process.env.OTEL_TRACES_SAMPLER = 'always_off';
+      assert.equal(decide({}), NOT_RECORD);
+
+      process.env.OTEL_TRACES_SAMPLER = 'traceidratio';
+      process.env.OTEL_TRACES_SAMPLER_ARG = '0';
+      assert.equal(decide({}), NOT_RECORD);
+    });
+
+    it('lets options win over the environment', () => {
+      process.env.OTEL_TRACES_SAMPLER = 'always_off';
+
+      assert.equal(decide({ ratio: 1 }), RECORD_AND_SAMPLED);
+    });
+
+    it('ignores remote parents for non-parentbased samplers', () => {
+      process.env.OTEL_TRACES_SAMPLER = 'always_off';
+      assert.equal(decide({}, {}, remoteParent(true)), NOT_RECORD);
+
+      process.env.OTEL_TRACES_SAMPLER = 'parentbased_always_off';
+      assert.equal(decide({}, {}, remoteParent(true)), RECORD_AND_SAMPLED);
+    });
+
+    it('falls back to sampling everything for invalid values', () => {
+      process.env.OTEL_TRACES_SAMPLER = 'traceidratio';
+      process.env.OTEL_TRACES_SAMPLER_ARG = '2';
+      assert.equal(decide({}), RECORD_AND_SAMPLED);
+
+      process.env.OTEL_TRACES_SAMPLER = 'jaeger_remote';
+      assert.equal(decide({}), RECORD_AND_SAMPLED);
+    });
+  });
+});
+
+describe('KeepErrorsSpanProcessor', () => {
+  function setup(options: SamplingOptions) {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider({
+      sampler: createSampler(options),
+      spanProcessors: [new KeepErrorsSpanProcessor(new SimpleSpanProcessor(exporter))],
+    });
+    return { exporter, tracer: provider.getTracer('test') };
+  }
+
+  it('exports unsampled root spans that end with an error, marked sampled', () => {
+    const { exporter, tracer } = setup({ ratio: 0, keepErrors: true });
+
+    const failed = tracer.startSpan('failed', { attributes: { 'http.route': '/x' } });
+    failed.setStatus({ code: SpanStatusCode.ERROR, message: 'boom' });
+    failed.end();
+    tracer.startSpan('ok').end();
+
+    const [span, ...rest] = exporter.getFinishedSpans();
+    assert.equal(rest.length, 0);
+    assert.equal(span.name, 'failed');
+    assert.equal(span.spanContext().spanId, failed.spanContext().spanId);
+    assert.equal(span.spanContext().traceFlags & TraceFlags.SAMPLED, TraceFlags.SAMPLED);
+    assert.deepEqual(span.status, { code: SpanStatusCode.ERROR, message: 'boom' });
+    assert.deepEqual(span.attributes, { 'http.route': '/x' });
+    assert.ok(span.ended);
+  });
+
+  it('does not record the children of an unsampled root span', () => {
+    const { exporter, tracer } = setup({ ratio: 0, keepErrors: true });
+
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', {}, trace.setSpan(ROOT_CONTEXT, root));
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    root.end();
+
+    assert.equal(child.isRecording(), false);
+    assert.deepEqual(exporter.getFinishedSpans(), []);
+  });
+
+  it('passes sampled spans through unchanged', () => {
+    const { exporter, tracer } = setup({ ratio: 1, keepErrors: true });
+
+    const span = tracer.startSpan('sampled');
+    span.end();
+
+    assert.deepEqual(
+      exporter.getFinishedSpans().map((finished) => finished.spanContext().spanId),
+      [span.spanContext().spanId]
+    );
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Trace sampling.
+ *
+ * Head sampler built from `init({ sampling })`:
+ * - Ratio of traces to keep, decided by trace ID so every service agrees
+ * - Parent-based: a span follows its parent's decision (remote parents optional)
+ * - Rules per route and HTTP method (first match wins), e.g. drop health checks
+ * - Rate limit: at most N new traces per second
+ * - Keep errors: unsampled root spans are still recorded, and exported if they end with an error
+ *
+ * OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG set the default ratio and parent handling
+ * (always_on, always_off, traceidratio and their parentbased_ variants).
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     sampling: {
+ *       ratio: 0.1,
+ *       rules: [
+ *         { route: '/health', ratio: 0 },
+ *         { route: /^\/api\/nlq/, method: 'POST', ratio: 1 },
+ *       ],
+ *       rateLimit: 100,
+ *       keepErrors: true,
+ *     },
+ *   });
+ */
+
+import { Attributes, Context, Link, SpanKind, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import {
+  ParentBasedSampler,
+  ReadableSpan,
+  Sampler,
+  SamplingDecision,
+  SamplingResult,
+  Span,
+  SpanProcessor,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface SamplingRule {
+  /**
+   * Route or path to match: a string matches as a prefix (like excludeRoutes), a RegExp is tested.
+   * Matched against `http.route` when known, else the request path.
+   */
+  route?: string | RegExp;
+
+  /**
+   * HTTP method(s) to match, case-insensitive.
+   */
+  method?: string | string[];
+
+  /**
+   * Fraction of matching traces to keep (0-1).
+   */
+  ratio: number;
+}
+
+export interface SamplingOptions {
+  /**
+   * Fraction of traces to keep when no rule matches (0-1).
+   * Default: from OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG, else 1.
+   */
+  ratio?: number;
+
+  /**
+   * Follow the sampling decision of a remote parent (incoming traceparent).
+   * Local child spans always follow their parent.
+   * Default: from OTEL_TRACES_SAMPLER, else true.
+   */
+  parentBased?: boolean;
+
+  /**
+   * Per-route / per-method ratios for root spans, checked in order before `ratio`.
+   */
+  rules?: SamplingRule[];
+
+  /**
+   * Maximum number of new traces sampled per second (default: unlimited).
+   */
+  rateLimit?: number;
+
+  /**
+   * Record unsampled root spans and export them if they end with an error (default: false).
+   * Only the errored root span is exported; its children are not recorded.
+   */
+  keepErrors?: boolean;
+}
+
+interface CompiledRule {
+  route?: string | RegExp;
+  methods?: string[];
+  sampler: Sampler;
+}
+
+// -----------------------------------------------------------------------------
+// Sampler
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the SDK sampler from the sampling options and environment. Called by init().
+ */
+export function createSampler(options: SamplingOptions = {}): Sampler {
+  const fromEnv = samplingFromEnv();
+  const root = new RootSampler({
+    ...options,
+    ratio: options.ratio ?? fromEnv.ratio ?? 1,
+  });
+  const parentBased = options.parentBased ?? fromEnv.parentBased ?? true;
+
+  return new ParentBasedSampler({
+    root,
+    ...(parentBased ? {} : { remoteParentSampled: root, remoteParentNotSampled: root }),
+  });
+}
+
+/**
+ * Decides for spans without a (followed) parent: rules, then ratio, then rate limit.
+ */
+class RootSampler implements Sampler {
+  private readonly rules: CompiledRule[];
+  private readonly defaultSampler: Sampler;
+  private readonly limiter?: RateLimiter;
+
+  constructor(private readonly options: SamplingOptions & { ratio: number }) {
+    this.rules = (options.rules ?? []).map((rule) => ({
+      route: rule.route,
+      methods: rule.method ? [rule.method].flat().map((m) => m.toUpperCase()) : undefined,
+      sampler: new TraceIdRatioBasedSampler(rule.ratio),
+    }));
+    this.defaultSampler = new TraceIdRatioBasedSampler(options.ratio);
+    this.limiter = options.rateLimit !== undefined ? new RateLimiter(options.rateLimit) : undefined;
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: Attributes,
+    links: Link[]
+  ): SamplingResult {
+    const rule = this.rules.find((r) => matchesRule(r, attributes));
+    const sampler = rule?.sampler ?? this.defaultSampler;
+    const { decision } = sampler.shouldSample(context, traceId, spanName, spanKind, attributes, links);
+
+    if (decision === SamplingDecision.RECORD_AND_SAMPLED && (this.limiter?.tryAcquire() ?? true)) {
+      return { decision };
+    }
+    return {
+      decision: this.options.keepErrors ? SamplingDecision.RECORD : SamplingDecision.NOT_RECORD,
+    };
+  }
+
+  toString(): string {
+    return `NeoiqSampler{ratio=${this.options.ratio}, rules=${this.rules.length}, rateLimit=${
+      this.options.rateLimit ?? 'none'
+    }, keepErrors=${this.options.keepErrors ?? false}}`;
+  }
+}
+
+/**
+ * Token bucket allowing `perSecond` acquisitions per second, with bursts up to `perSecond`.
+ */
+class RateLimiter {
+  private tokens: number;
+  private last = Date.now();
+
+  constructor(private readonly perSecond: number) {
+    this.tokens = perSecond;
+  }
+
+  tryAcquire(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.perSecond, this.tokens + ((now - this.last) / 1000) * this.perSecond);
+    this.last = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Keep Errors
+// -----------------------------------------------------------------------------
+
+/**
+ * Wraps the exporting span processor when `keepErrors` is on. The sampler records
+ * unsampled root spans without sampling them; here sampled spans pass through and
+ * recorded-but-unsampled spans are forwarded only if they ended with an error, as a
+ * sampled copy so the batch processor exports them.
+ */
+export class KeepErrorsSpanProcessor implements SpanProcessor {
+  constructor(private readonly next: SpanProcessor) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    this.next.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const spanContext = span.spanContext();
+    if (spanContext.traceFlags & TraceFlags.SAMPLED) {
+      this.next.onEnd(span);
+    } else if (span.status.code === SpanStatusCode.ERROR) {
+      this.next.onEnd(sampledCopy(span));
+    }
+  }
+
+  forceFlush(): Promise<void> {
+    return this.next.forceFlush();
+  }
+
+  shutdown(): Promise<void> {
+    return this.next.shutdown();
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * The ended span's fields, with the sampled flag set. Copies every ReadableSpan field
+ * explicitly, so a change to the interface fails to compile instead of dropping data.
+ */
+function sampledCopy(span: ReadableSpan): ReadableSpan {
+  const spanContext = { ...span.spanContext(), traceFlags: span.spanContext().traceFlags | TraceFlags.SAMPLED };
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: () => spanContext,
+    parentSpanId: span.parentSpanId,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links,
+    events: span.events,
+    duration: span.duration,
+    ended: span.ended,
+    resource: span.resource,
+    instrumentationLibrary: span.instrumentationLibrary,
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+function matchesRule(rule: CompiledRule, attributes: Attributes): boolean {
+  if (rule.methods) {
+    const method = String(attributes['http.request.method'] ?? attributes['http.method'] ?? '');
+    if (!rule.methods.includes(method.toUpperCase())) return false;
+  }
+  if (rule.route !== undefined) {
+    const path = requestPath(attributes);
+    if (path === undefined) return false;
+    return typeof rule.route === 'string' ? path.startsWith(rule.route) : rule.route.test(path);
+  }
+  return true;
+}
+
+/**
+ * Route or path from the span start attributes (plugin, old or new HTTP semantic conventions).
+ */
+function requestPath(attributes: Attributes): string | undefined {
+  const value =
+    attributes['http.route'] ??
+    attributes['url.path'] ??
+    attributes['http.target'] ??
+    attributes['http.url'];
+  if (typeof value !== 'string') return undefined;
+
+  const path = value.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '');
+  return path.split(/[?#]/)[0] || '/';
+}
+
+/**
+ * Defaults from OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG.
+ * Samplers other than always_on, always_off and traceidratio (and parentbased_ variants) are ignored.
+ */
+function samplingFromEnv(): { ratio?: number; parentBased?: boolean } {
+  const sampler = process.env.OTEL_TRACES_SAMPLER?.trim().toLowerCase();
+  if (!sampler) return {};
+
+  const parentBased = sampler.startsWith('parentbased_');
+  const base = parentBased ? sampler.slice('parentbased_'.length) : sampler;
+  const rawArg = process.env.OTEL_TRACES_SAMPLER_ARG?.trim();
+  const arg = rawArg ? Number(rawArg) : NaN;
+
+  switch (base) {
+    case 'always_on':
+      return { ratio: 1, parentBased };
+    case 'always_off':
+      return { ratio: 0, parentBased };
+    case 'traceidratio':
+      return { ratio: Number.isFinite(arg) && arg >= 0 && arg <= 1 ? arg : 1, parentBased };
+    default:
+      return {};
+  }
+}
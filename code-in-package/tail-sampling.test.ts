@@ -0,0 +1,258 @@
+/**
+ * Tail sampling tests: keep reasons, late spans, buffer limits, age-based decisions
+ * and the tail sampling metrics.
+ *
+ * Run from code-in-package with: npm test (node --import tsx --test *.test.ts)
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { ROOT_CONTEXT, Span, SpanStatusCode, Tracer, trace } from '@opentelemetry/api';
+import { MeterProvider, MetricReader } from '@opentelemetry/sdk-metrics';
+import {
+  BasicTracerProvider,
+  RandomIdGenerator,
+  ReadableSpan,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { TailSamplingOptions, TailSamplingSpanProcessor } from './tail-sampling';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+class CollectingMetricReader extends MetricReader {
+  protected onForceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  protected onShutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Span processor that keeps every span it is given, including after shutdown.
+ */
+class RecordingSpanProcessor implements SpanProcessor {
+  readonly spans: ReadableSpan[] = [];
+
+  onStart(): void {}
+
+  onEnd(span: ReadableSpan): void {
+    this.spans.push(span);
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+interface Setup {
+  tracer: Tracer;
+  next: RecordingSpanProcessor;
+  processor: TailSamplingSpanProcessor;
+  /** Trace IDs to hand out before random ones. */
+  traceIds: string[];
+  /** Counter values by metric name and reason. */
+  counts: () => Promise<Record<string, number>>;
+}
+
+let active: Setup | undefined;
+
+function setup(options: TailSamplingOptions): Setup {
+  const next = new RecordingSpanProcessor();
+  const reader = new CollectingMetricReader();
+  const meter = new MeterProvider({ readers: [reader] }).getMeter('test');
+  const processor = new TailSamplingSpanProcessor(next, options, meter);
+  const traceIds: string[] = [];
+  const random = new RandomIdGenerator();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [processor],
+    idGenerator: {
+      generateTraceId: () => traceIds.shift() ?? random.generateTraceId(),
+      generateSpanId: () => random.generateSpanId(),
+    },
+  });
+
+  const counts = async () => {
+    const { resourceMetrics } = await reader.collect();
+    const result: Record<string, number> = {};
+    for (const metric of resourceMetrics.scopeMetrics.flatMap((scope) => scope.metrics)) {
+      for (const point of metric.dataPoints) {
+        const reason = point.attributes.reason;
+        result[reason ? `${metric.descriptor.name}:${reason}` : metric.descriptor.name] = point.value as number;
+      }
+    }
+    return result;
+  };
+
+  active = { tracer: provider.getTracer('test'), next, processor, traceIds, counts };
+  return active;
+}
+
+function startChild(tracer: Tracer, parent: Span, name: string): Span {
+  return tracer.startSpan(name, {}, trace.setSpan(ROOT_CONTEXT, parent));
+}
+
+function exportedNames(next: RecordingSpanProcessor): string[] {
+  return next.spans.map((span) => span.name);
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+describe('TailSamplingSpanProcessor', () => {
+  afterEach(async () => {
+    await active?.processor.shutdown();
+    active = undefined;
+  });
+
+  it('buffers spans until the root ends, then exports the whole trace', async () => {
+    const { tracer, next, counts } = setup({ ratio: 0 });
+    const root = tracer.startSpan('root');
+    const child = startChild(tracer, root, 'child');
+
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    assert.deepEqual(exportedNames(next), []);
+
+    root.end();
+    assert.deepEqual(exportedNames(next), ['child', 'root']);
+    assert.equal((await counts())['tracing.tail_sampling.traces.kept:error'], 1);
+  });
+
+  it('keeps slow traces', async () => {
+    const { tracer, next, counts } = setup({ ratio: 0, latencyThresholdMs: 1000 });
+
+    tracer.startSpan('slow', { startTime: Date.now() - 1500 }).end();
+    tracer.startSpan('fast').end();
+
+    assert.deepEqual(exportedNames(next), ['slow']);
+    assert.equal((await counts())['tracing.tail_sampling.traces.kept:slow'], 1);
+  });
+
+  it('keeps traces matching a rule, passing the root and the buffered spans', async () => {
+    const { tracer, next } = setup({
+      ratio: 0,
+      rules: [(root, spans) => root?.attributes['http.route'] === '/api/nlq/query' && spans.length === 2],
+    });
+
+    const kept = tracer.startSpan('kept', { attributes: { 'http.route': '/api/nlq/query' } });
+    startChild(tracer, kept, 'kept-child').end();
+    kept.end();
+    tracer.startSpan('other', { attributes: { 'http.route': '/api/reports' } }).end();
+
+    assert.deepEqual(exportedNames(next), ['kept-child', 'kept']);
+  });
+
+  it('keeps the ratio of the remaining traces by trace ID', async () => {
+    const { tracer, next, traceIds, counts } = setup({ ratio: 0.5 });
+    traceIds.push('0af7651916cd43dd8448eb2100000000', '0af7651916cd43dd8448eb21ffffffff');
+
+    tracer.startSpan('low-id').end();
+    tracer.startSpan('high-id').end();
+
+    assert.deepEqual(exportedNames(next), ['low-id']);
+    const values = await counts();
+    assert.equal(values['tracing.tail_sampling.traces.kept:sampled'], 1);
+    assert.equal(values['tracing.tail_sampling.traces.dropped:sampled_out'], 1);
+  });
+
+  it('applies the decision to spans that end after the root', () => {
+    const { tracer, next } = setup({ ratio: 0 });
+
+    const dropped = tracer.startSpan('dropped');
+    const droppedChild = startChild(tracer, dropped, 'dropped-late');
+    dropped.end();
+    droppedChild.end();
+
+    const kept = tracer.startSpan('kept');
+    const keptChild = startChild(tracer, kept, 'kept-late');
+    kept.setStatus({ code: SpanStatusCode.ERROR });
+    kept.end();
+    keptChild.end();
+
+    assert.deepEqual(exportedNames(next), ['kept', 'kept-late']);
+  });
+
+  it('treats spans with a remote parent as local roots', () => {
+    const { tracer, next } = setup({ ratio: 0 });
+    const remote = trace.setSpanContext(ROOT_CONTEXT, {
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: 1,
+      isRemote: true,
+    });
+
+    const server = tracer.startSpan('server', {}, remote);
+    const child = startChild(tracer, server, 'child');
+    child.end();
+    assert.deepEqual(exportedNames(next), []);
+
+    server.setStatus({ code: SpanStatusCode.ERROR });
+    server.end();
+    assert.deepEqual(exportedNames(next), ['child', 'server']);
+  });
+
+  it('drops new traces while maxTraces are buffered', async () => {
+    const { tracer, next, counts } = setup({ ratio: 1, maxTraces: 1 });
+
+    const first = tracer.startSpan('first');
+    const second = tracer.startSpan('second');
+    second.end();
+    first.end();
+
+    assert.deepEqual(exportedNames(next), ['first']);
+    assert.equal((await counts())['tracing.tail_sampling.traces.dropped:buffer_full'], 1);
+  });
+
+  it('drops spans past maxSpansPerTrace', async () => {
+    const { tracer, next, counts } = setup({ ratio: 1, maxSpansPerTrace: 2 });
+
+    const root = tracer.startSpan('root');
+    for (const name of ['a', 'b', 'c']) startChild(tracer, root, name).end();
+    root.end();
+
+    assert.deepEqual(exportedNames(next), ['a', 'b']);
+    assert.equal((await counts())['tracing.tail_sampling.spans.dropped'], 2);
+  });
+
+  it('decides traces whose root has not ended after maxTraceAgeMs', async () => {
+    const { tracer, next } = setup({ ratio: 0, maxTraceAgeMs: 20, rules: [(root) => root === undefined] });
+
+    const root = tracer.startSpan('stuck');
+    startChild(tracer, root, 'child').end();
+    await sleep(60);
+
+    assert.deepEqual(exportedNames(next), ['child']);
+  });
+
+  it('decides the buffered traces on shutdown', async () => {
+    const { tracer, next, processor } = setup({ ratio: 0 });
+
+    const root = tracer.startSpan('open');
+    const child = startChild(tracer, root, 'failed');
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    await processor.shutdown();
+
+    assert.deepEqual(exportedNames(next), ['failed']);
+  });
+
+  it('reports the number of buffered traces', async () => {
+    const { tracer, counts } = setup({ ratio: 1 });
+
+    const open = tracer.startSpan('open');
+    tracer.startSpan('closed').end();
+
+    assert.equal((await counts())['tracing.tail_sampling.buffered_traces'], 1);
+    open.end();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * In-process tail sampling.
+ *
+ * Buffers each trace's spans until its local root span ends (the SERVER span for a
+ * request handled by observabilityPlugin), then exports the whole trace if it:
+ * - contains a span that ended with an error
+ * - took at least `latencyThresholdMs`
+ * - matches one of the `rules`
+ * and otherwise keeps `ratio` of traces (decided by trace ID).
+ *
+ * Memory is bounded by `maxTraces` and `maxSpansPerTrace`. Traces whose root never
+ * ends are decided after `maxTraceAgeMs` with the spans collected so far.
+ *
+ * Tail sampling only sees spans recorded by the head sampler, so keep `sampling.ratio`
+ * at 1 (the default) when using it.
+ *
+ * Usage:
+ *   init({
+ *     serviceName: 'my-service',
+ *     tailSampling: {
+ *       latencyThresholdMs: 2000,
+ *       ratio: 0.05,
+ *       rules: [(root) => root?.attributes['http.route'] === '/api/nlq/query'],
+ *     },
+ *   });
+ */
+
+import { Context, Counter, Meter, SpanStatusCode, trace } from '@opentelemetry/api';
+import { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Keeps a trace when it returns true. `root` is undefined for traces decided by age.
+ */
+export type TailSamplingRule = (root: ReadableSpan | undefined, spans: ReadableSpan[]) => boolean;
+
+export interface TailSamplingOptions {
+  /**
+   * Keep traces whose root span took at least this long, in ms (default: 1000).
+   */
+  latencyThresholdMs?: number;
+
+  /**
+   * Fraction of the remaining traces to keep (0-1, default: 0.1).
+   */
+  ratio?: number;
+
+  /**
+   * Extra conditions that keep a trace.
+   */
+  rules?: TailSamplingRule[];
+
+  /**
+   * Maximum traces buffered at once; new traces beyond it are dropped (default: 1000).
+   */
+  maxTraces?: number;
+
+  /**
+   * Maximum spans buffered per trace; later spans are dropped (default: 500).
+   */
+  maxSpansPerTrace?: number;
+
+  /**
+   * Decide traces whose root has not ended after this long, in ms (default: 30000).
+   */
+  maxTraceAgeMs?: number;
+}
+
+export type TailSamplingKeepReason = 'error' | 'slow' | 'rule' | 'sampled';
+
+interface BufferedTrace {
+  rootSpanId: string;
+  spans: ReadableSpan[];
+  startedAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// Processor
+// -----------------------------------------------------------------------------
+
+/**
+ * Span processor that buffers spans per trace and forwards kept traces to `next`
+ * (normally the exporting BatchSpanProcessor).
+ */
+export class TailSamplingSpanProcessor implements SpanProcessor {
+  private readonly traces = new Map<string, BufferedTrace>();
+  // Decisions for traces that are no longer buffered, so late spans follow them
+  private readonly decided = new Map<string, boolean>();
+  private readonly latencyThresholdMs: number;
+  private readonly ratio: number;
+  private readonly rules: TailSamplingRule[];
+  private readonly maxTraces: number;
+  private readonly maxSpansPerTrace: number;
+  private readonly maxTraceAgeMs: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  private readonly keptCounter: Counter;
+  private readonly droppedCounter: Counter;
+  private readonly droppedSpansCounter: Counter;
+
+  constructor(
+    private readonly next: SpanProcessor,
+    options: TailSamplingOptions,
+    meter: Meter
+  ) {
+    this.latencyThresholdMs = options.latencyThresholdMs ?? 1000;
+    this.ratio = options.ratio ?? 0.1;
+    this.rules = options.rules ?? [];
+    this.maxTraces = options.maxTraces ?? 1000;
+    this.maxSpansPerTrace = options.maxSpansPerTrace ?? 500;
+    this.maxTraceAgeMs = options.maxTraceAgeMs ?? 30000;
+
+    this.keptCounter = meter.createCounter('tracing.tail_sampling.traces.kept', {
+      description: 'Traces exported by tail sampling (by reason)',
+    });
+    this.droppedCounter = meter.createCounter('tracing.tail_sampling.traces.dropped', {
+      description: 'Traces dropped by tail sampling (by reason)',
+    });
+    this.droppedSpansCounter = meter.createCounter('tracing.tail_sampling.spans.dropped', {
+      description: 'Spans dropped because their trace hit the per-trace span limit',
+    });
+    meter
+      .createObservableGauge('tracing.tail_sampling.buffered_traces', {
+        description: 'Traces currently buffered by tail sampling',
+      })
+      .addCallback((result) => result.observe(this.traces.size));
+
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.maxTraceAgeMs, 1000));
+    this.sweepTimer.unref();
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    const { traceId, spanId } = span.spanContext();
+    const parent = trace.getSpanContext(parentContext);
+    const isLocalRoot = !parent || parent.isRemote;
+
+    if (isLocalRoot && !this.traces.has(traceId) && !this.decided.has(traceId)) {
+      if (this.traces.size >= this.maxTraces) {
+        this.remember(traceId, false);
+        this.droppedCounter.add(1, { reason: 'buffer_full' });
+      } else {
+        this.traces.set(traceId, { rootSpanId: spanId, spans: [], startedAt: Date.now() });
+      }
+    }
+
+    this.next.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const { traceId, spanId } = span.spanContext();
+    const buffered = this.traces.get(traceId);
+
+    if (!buffered) {
+      // Late span of a decided trace, or a trace started before this processor
+      if (this.decided.get(traceId) ?? true) this.next.onEnd(span);
+      return;
+    }
+
+    if (buffered.spans.length < this.maxSpansPerTrace) {
+      buffered.spans.push(span);
+    } else {
+      this.droppedSpansCounter.add(1);
+    }
+
+    if (spanId === buffered.rootSpanId) {
+      this.decide(traceId, buffered, span);
+    }
+  }
+
+  forceFlush(): Promise<void> {
+    return this.next.forceFlush();
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const [traceId, buffered] of this.traces) {
+      this.decide(traceId, buffered, undefined);
+    }
+    await this.next.shutdown();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Decisions
+  // ---------------------------------------------------------------------------
+
+  private decide(traceId: string, buffered: BufferedTrace, root: ReadableSpan | undefined): void {
+    this.traces.delete(traceId);
+
+    const reason = this.keepReason(traceId, root, buffered.spans);
+    this.remember(traceId, reason !== undefined);
+
+    if (reason === undefined) {
+      this.droppedCounter.add(1, { reason: 'sampled_out' });
+      return;
+    }
+
+    this.keptCounter.add(1, { reason });
+    for (const span of buffered.spans) {
+      this.next.onEnd(span);
+    }
+  }
+
+  private keepReason(
+    traceId: string,
+    root: ReadableSpan | undefined,
+    spans: ReadableSpan[]
+  ): TailSamplingKeepReason | undefined {
+    if (spans.some((span) => span.status.code === SpanStatusCode.ERROR)) return 'error';
+    if (root && durationMs(root) >= this.latencyThresholdMs) return 'slow';
+    if (this.rules.some((rule) => rule(root, spans))) return 'rule';
+    if (traceIdRatio(traceId) < this.ratio) return 'sampled';
+    return undefined;
+  }
+
+  /**
+   * Decide traces whose root has been open longer than maxTraceAgeMs.
+   */
+  private sweep(): void {
+    const cutoff = Date.now() - this.maxTraceAgeMs;
+    for (const [traceId, buffered] of this.traces) {
+      if (buffered.startedAt <= cutoff) this.decide(traceId, buffered, undefined);
+    }
+  }
+
+  private remember(traceId: string, keep: boolean): void {
+    if (this.decided.size >= this.maxTraces) {
+      // Maps iterate in insertion order: drop the oldest decision
+      this.decided.delete(this.decided.keys().next().value as string);
+    }
+    this.decided.set(traceId, keep);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function durationMs(span: ReadableSpan): number {
+  const [seconds, nanos] = span.duration;
+  return seconds * 1e3 + nanos / 1e6;
+}
+
+/**
+ * Position of the trace ID in [0, 1), so services sampling the same ratio agree.
+ */
+function traceIdRatio(traceId: string): number {
+  return parseInt(traceId.slice(-8), 16) / 0x100000000;
+}
@@ -0,0 +1,344 @@
+/**
+ * In-memory test harness.
+ *
+ * Installs in-memory span and metric exporters and a captured log sink in place of
+ * init(), so unit tests can assert on what observabilityPlugin, createHttpClient and
+ * your own code emit. A later init() call (e.g. from the app under test) is skipped.
+ *
+ * Usage:
+ *   const obs = createTestObservability();
+ *
+ *   afterEach(() => obs.reset());
+ *   afterAll(() => obs.shutdown());
+ *
+ *   it('traces the request', async () => {
+ *     await app.inject({ method: 'GET', url: '/api/reports/42' });
+ *
+ *     obs.expectSpan({ name: 'GET /api/reports/:id', attributes: { 'http.route': '/api/reports/:id' } });
+ *     const requests = await obs.getMetric('http.server.requests.total');
+ *     expect(requests?.points[0].value).toBe(1);
+ *     expect(obs.findLogs({ msg: 'Request completed' })).toHaveLength(1);
+ *   });
+ */
+
+import { Attributes, context, metrics, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import {
+  AggregationTemporality,
+  DataPointType,
+  Histogram,
+  MeterProvider,
+  MetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { InMemorySpanExporter, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { Resource } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { LogLevel, installTestLogger, resetTestLogger } from './observability-index';
+import { RedactionOptions, configureRedaction } from './redaction';
+import { ContextFieldsOptions, configureContextFields } from './context-fields';
+import { MetricViewOptions, configureMetricViews, createMetricViews } from './metric-views';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TestObservabilityOptions {
+  /**
+   * Service name for the resource, logs and getTracer() (default: 'test-service').
+   */
+  serviceName?: string;
+
+  /**
+   * Captured log level (default: 'debug').
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Redaction policy, as in init() (default: built-in defaults).
+   */
+  redaction?: RedactionOptions;
+
+  /**
+   * Context fields, as in init() (default: none configured).
+   */
+  contextFields?: ContextFieldsOptions;
+
+  /**
+   * Metric views, as in init() (default: none).
+   */
+  metricViews?: MetricViewOptions[];
+}
+
+/**
+ * Span filter. Strings in `attributes` match exactly, RegExps are tested.
+ */
+export interface SpanMatcher {
+  name?: string | RegExp;
+  kind?: SpanKind;
+  status?: SpanStatusCode;
+  attributes?: Record<string, string | number | boolean | RegExp>;
+}
+
+export interface TestMetricPoint {
+  attributes: Attributes;
+
+  /**
+   * Sum for counters, last value for gauges, sum of recorded values for histograms.
+   */
+  value: number;
+
+  /**
+   * Number of recorded values (histograms only).
+   */
+  count?: number;
+  min?: number;
+  max?: number;
+
+  /**
+   * Bucket boundaries and per-bucket counts (explicit-bucket histograms only).
+   */
+  buckets?: { boundaries: number[]; counts: number[] };
+}
+
+export interface TestMetric {
+  name: string;
+  type: 'sum' | 'gauge' | 'histogram';
+  unit: string;
+  points: TestMetricPoint[];
+}
+
+/**
+ * A captured pino log record (level as label, e.g. 'info').
+ */
+export type TestLogRecord = Record<string, unknown> & { level: string; msg?: string };
+
+export interface TestObservability {
+  /**
+   * Finished spans, in end order.
+   */
+  getSpans(): ReadableSpan[];
+
+  /**
+   * Finished spans matching the filter.
+   */
+  findSpans(matcher: SpanMatcher): ReadableSpan[];
+
+  /**
+   * The first finished span matching the filter. Throws (listing the finished spans) if none does.
+   */
+  expectSpan(matcher: SpanMatcher): ReadableSpan;
+
+  /**
+   * A metric recorded since the last reset(), with one point per attribute set.
+   */
+  getMetric(name: string): Promise<TestMetric | undefined>;
+
+  /**
+   * Captured log records whose fields equal (or, for RegExps, match) the filter.
+   */
+  findLogs(filter?: Record<string, unknown>): TestLogRecord[];
+
+  /**
+   * Clear captured spans, metrics and logs. Call between tests.
+   */
+  reset(): Promise<void>;
+
+  /**
+   * Uninstall the harness so init() or createTestObservability() can run again.
+   */
+  shutdown(): Promise<void>;
+}
+
+// -----------------------------------------------------------------------------
+// Metric Reader
+// -----------------------------------------------------------------------------
+
+/**
+ * Collects on demand with delta temporality and accumulates the points, so each
+ * test sees only what was recorded since the last reset.
+ */
+class AccumulatingMetricReader extends MetricReader {
+  private readonly metrics = new Map<string, TestMetric>();
+
+  constructor() {
+    super({ aggregationTemporalitySelector: () => AggregationTemporality.DELTA });
+  }
+
+  async read(): Promise<Map<string, TestMetric>> {
+    const { resourceMetrics } = await this.collect();
+
+    for (const scope of resourceMetrics.scopeMetrics) {
+      for (const metric of scope.metrics) {
+        const { name, unit } = metric.descriptor;
+        const type =
+          metric.dataPointType === DataPointType.SUM
+            ? 'sum'
+            : metric.dataPointType === DataPointType.GAUGE
+              ? 'gauge'
+              : 'histogram';
+        const entry = this.metrics.get(name) ?? { name, type, unit, points: [] };
+        this.metrics.set(name, entry);
+
+        for (const dataPoint of metric.dataPoints) {
+          const key = attributesKey(dataPoint.attributes);
+          let point = entry.points.find((p) => attributesKey(p.attributes) === key);
+          if (!point) {
+            point = { attributes: dataPoint.attributes, value: 0 };
+            entry.points.push(point);
+          }
+
+          const value = dataPoint.value;
+          if (typeof value === 'number') {
+            point.value = type === 'gauge' ? value : point.value + value;
+          } else {
+            point.value += value.sum ?? 0;
+            point.count = (point.count ?? 0) + value.count;
+            if (value.min !== undefined) point.min = Math.min(point.min ?? Infinity, value.min);
+            if (value.max !== undefined) point.max = Math.max(point.max ?? -Infinity, value.max);
+            if (metric.dataPointType === DataPointType.HISTOGRAM) {
+              const { boundaries, counts } = (value as Histogram).buckets;
+              const previous = point.buckets?.counts ?? [];
+              point.buckets = {
+                boundaries,
+                counts: counts.map((count, i) => (previous[i] ?? 0) + count),
+              };
+            }
+          }
+        }
+      }
+    }
+
+    return this.metrics;
+  }
+
+  async clear(): Promise<void> {
+    // Drain the pending deltas before forgetting them
+    await this.collect();
+    this.metrics.clear();
+  }
+
+  protected onForceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  protected onShutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Harness
+// -----------------------------------------------------------------------------
+
+/**
+ * Install in-memory telemetry for tests. Call before creating clients or registering the plugin.
+ */
+export function createTestObservability(options: TestObservabilityOptions = {}): TestObservability {
+  const { serviceName = 'test-service', logLevel = 'debug', redaction, contextFields, metricViews } = options;
+  const resource = new Resource({ [ATTR_SERVICE_NAME]: serviceName });
+  const views = createMetricViews(metricViews); // Throws on invalid views before anything is installed
+
+  configureRedaction(redaction);
+  configureContextFields(contextFields);
+  configureMetricViews(metricViews);
+
+  // Traces: exported synchronously as each span ends
+  const spanExporter = new InMemorySpanExporter();
+  const tracerProvider = new NodeTracerProvider({
+    resource,
+    spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+  });
+  tracerProvider.register();
+
+  // Metrics: collected on demand
+  const metricReader = new AccumulatingMetricReader();
+  const meterProvider = new MeterProvider({
+    resource,
+    readers: [metricReader],
+    views,
+  });
+  metrics.setGlobalMeterProvider(meterProvider);
+
+  // Logs: every record parsed into memory
+  let logs: TestLogRecord[] = [];
+  installTestLogger(serviceName, logLevel, {
+    write: (line: string) => {
+      logs.push(JSON.parse(line));
+    },
+  });
+
+  const findSpans = (matcher: SpanMatcher) =>
+    spanExporter.getFinishedSpans().filter((span) => matchesSpan(span, matcher));
+
+  return {
+    getSpans: () => spanExporter.getFinishedSpans(),
+
+    findSpans,
+
+    expectSpan(matcher) {
+      const [span] = findSpans(matcher);
+      if (!span) {
+        const finished = spanExporter.getFinishedSpans().map((s) => `  - ${s.name}`);
+        throw new Error(
+          `No span matches ${describeMatcher(matcher)}. Finished spans:\n${finished.join('\n') || '  (none)'}`
+        );
+      }
+      return span;
+    },
+
+    async getMetric(name) {
+      return (await metricReader.read()).get(name);
+    },
+
+    findLogs(filter = {}) {
+      return logs.filter((log) =>
+        Object.entries(filter).every(([key, expected]) => matchesValue(log[key], expected))
+      );
+    },
+
+    async reset() {
+      spanExporter.reset();
+      await metricReader.clear();
+      logs = [];
+    },
+
+    async shutdown() {
+      await tracerProvider.shutdown();
+      await meterProvider.shutdown();
+      trace.disable();
+      context.disable();
+      propagation.disable();
+      metrics.disable();
+      resetTestLogger();
+      configureRedaction();
+      configureContextFields();
+      configureMetricViews();
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function matchesSpan(span: ReadableSpan, matcher: SpanMatcher): boolean {
+  if (matcher.name !== undefined && !matchesValue(span.name, matcher.name)) return false;
+  if (matcher.kind !== undefined && span.kind !== matcher.kind) return false;
+  if (matcher.status !== undefined && span.status.code !== matcher.status) return false;
+  return Object.entries(matcher.attributes ?? {}).every(([key, expected]) =>
+    matchesValue(span.attributes[key], expected)
+  );
+}
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) return typeof actual === 'string' && expected.test(actual);
+  return actual === expected;
+}
+
+function describeMatcher(matcher: SpanMatcher): string {
+  return JSON.stringify(matcher, (_key, value) => (value instanceof RegExp ? String(value) : value));
+}
+
+function attributesKey(attributes: Attributes): string {
+  return JSON.stringify(Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,416 @@
+/**
+ * Traced functions and methods.
+ *
+ * `traced()` wraps a function and `@Traced()` decorates a method so each call runs in
+ * its own active span, which:
+ * - ends when the call returns, its promise settles, or its (async) generator finishes;
+ *   a generator function's span starts on the first step, so an unused generator records nothing
+ * - records a thrown error or rejection (redacted) and sets the ERROR status
+ * - optionally captures selected arguments as span attributes (redacted)
+ * - optionally records the call duration in a histogram
+ *
+ * Usage:
+ *   const fetchReport = traced(async (reportId: string) => db.reports.get(reportId), {
+ *     name: 'reports.fetch',
+ *     captureArgs: { 0: 'report.id' },
+ *   });
+ *
+ *   class ReportService {
+ *     @Traced({ attributes: { component: 'reports' }, recordDuration: true })
+ *     async generate(reportId: string) { ... }
+ *   }
+ */
+
+import {
+  Attributes,
+  Context,
+  Histogram,
+  Meter,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  trace,
+} from '@opentelemetry/api';
+import { getMeter, getTracer } from './observability-index';
+import { redactError, redactObject, redactString } from './redaction';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TracedOptions<A extends unknown[] = unknown[]> {
+  /**
+   * Span name (default: the function name, or `Class.method` for @Traced).
+   */
+  name?: string;
+
+  /**
+   * Span kind (default: INTERNAL).
+   */
+  kind?: SpanKind;
+
+  /**
+   * Attributes set on every span.
+   */
+  attributes?: Attributes;
+
+  /**
+   * Arguments recorded as span attributes: argument index → attribute name, or a function
+   * of the arguments. Values are redacted; objects are recorded as JSON.
+   */
+  captureArgs?: Record<number, string> | ((...args: A) => Attributes);
+
+  /**
+   * Record the call duration (ms) in a histogram labelled by operation and status:
+   * true for `traced.duration`, or the metric name (default: false).
+   */
+  recordDuration?: boolean | string;
+}
+
+type Method<This, A extends unknown[], R> = (this: This, ...args: A) => R;
+
+/**
+ * Decorator returned by Traced(): standard (TypeScript 5) or `experimentalDecorators` form.
+ * The decorated method's arguments must match those `captureArgs` expects.
+ */
+export interface TracedDecorator<Args extends unknown[]> {
+  <This, A extends Args, R>(
+    method: Method<This, A, R>,
+    context: ClassMethodDecoratorContext<This, Method<This, A, R>>
+  ): Method<This, A, R>;
+  <This, A extends Args, R>(
+    target: object,
+    key: string | symbol,
+    descriptor: TypedPropertyDescriptor<Method<This, A, R>>
+  ): TypedPropertyDescriptor<Method<This, A, R>>;
+}
+
+/**
+ * Context and completion callback of a span, given to a generator on its first step.
+ */
+interface SpanScope {
+  spanContext: Context;
+  finish: (failed: boolean, error?: unknown) => void;
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+const DEFAULT_DURATION_METRIC = 'traced.duration';
+
+// Created on first use and per meter, so decorators evaluated before init() (or a test
+// harness replacing the meter provider) still record to the current provider
+const histograms = new WeakMap<Meter, Map<string, Histogram>>();
+
+// -----------------------------------------------------------------------------
+// Wrappers
+// -----------------------------------------------------------------------------
+
+/**
+ * Wrap `fn` so each call runs in a new active span.
+ *
+ * @example
+ *   export const aggregate = traced(async function aggregate(rows: Row[]) { ... });
+ */
+export function traced<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  options: TracedOptions<A> = {}
+): (...args: A) => R {
+  const name = options.name ?? (fn.name || 'anonymous');
+  const lazy = isGeneratorFunction(fn);
+
+  const wrapper = function (this: unknown, ...args: A): R {
+    return callTraced(name, options, args, () => fn.apply(this, args), lazy);
+  };
+  Object.defineProperty(wrapper, 'name', { value: fn.name });
+  return wrapper;
+}
+
+/**
+ * Method decorator running each call in a new span named `Class.method` by default.
+ * Works with both `experimentalDecorators` and standard (TypeScript 5) decorators.
+ *
+ * @example
+ *   @Traced({ name: 'reports.generate', captureArgs: { 0: 'report.id' } })
+ *   async generate(reportId: string) { ... }
+ */
+export function Traced<Args extends unknown[] = unknown[]>(
+  options: TracedOptions<Args> = {}
+): TracedDecorator<Args> {
+  const wrap = <This, R>(method: Method<This, Args, R>, key: string | symbol): Method<This, Args, R> => {
+    const lazy = isGeneratorFunction(method);
+    const wrapper = function (this: This, ...args: Args): R {
+      const name = options.name ?? `${className(this)}.${String(key)}`;
+      return callTraced(name, options, args, () => method.apply(this, args), lazy);
+    };
+    Object.defineProperty(wrapper, 'name', { value: method.name });
+    return wrapper;
+  };
+
+  // Standard decorators return the replacement; legacy ones patch the descriptor
+  const decorate = (
+    target: unknown,
+    keyOrContext: string | symbol | ClassMethodDecoratorContext,
+    descriptor?: TypedPropertyDescriptor<Method<unknown, Args, unknown>>
+  ) => {
+    if (typeof keyOrContext === 'object') {
+      return wrap(target as Method<unknown, Args, unknown>, keyOrContext.name);
+    }
+    if (descriptor?.value) {
+      descriptor.value = wrap(descriptor.value, keyOrContext);
+    }
+    return descriptor;
+  };
+  return decorate as TracedDecorator<Args>;
+}
+
+// -----------------------------------------------------------------------------
+// Span Lifecycle
+// -----------------------------------------------------------------------------
+
+/**
+ * Run `fn` and end the span when it is done: on return, when its promise settles, or
+ * when its (async) generator finishes. Failures are recorded on the span.
+ * `onEnd` is called once, after the span ends.
+ */
+export function runInSpan<T>(
+  span: Span,
+  fn: (span: Span) => T,
+  onEnd?: (failed: boolean) => void
+): T {
+  const finish = spanFinisher(span, onEnd);
+
+  try {
+    const result = fn(span);
+    // Any thenable, so promises from other realms and promise libraries end the span too
+    if (isThenable(result)) {
+      return result.then(
+        (value) => {
+          finish(false);
+          return value;
+        },
+        (error) => {
+          finish(true, error);
+          throw error;
+        }
+      ) as T;
+    }
+    if (isGenerator(result) || isAsyncGenerator(result)) {
+      const scope: SpanScope = { spanContext: context.active(), finish };
+      return traceGenerator(result, () => scope) as T;
+    }
+    finish(false);
+    return result;
+  } catch (error) {
+    finish(true, error);
+    throw error;
+  }
+}
+
+/**
+ * Span end handler: records a failure, ends the span and calls `onEnd`, once.
+ */
+function spanFinisher(span: Span, onEnd?: (failed: boolean) => void): SpanScope['finish'] {
+  let ended = false;
+  return (failed, error) => {
+    if (ended) return;
+    ended = true;
+    if (failed) recordFailure(span, error);
+    span.end();
+    onEnd?.(failed);
+  };
+}
+
+/**
+ * Run a traced call. `lazy` marks a generator function: calling it runs none of its
+ * body, so its span starts on the generator's first step instead.
+ */
+function callTraced<A extends unknown[], R>(
+  name: string,
+  options: TracedOptions<A>,
+  args: A,
+  call: () => R,
+  lazy: boolean
+): R {
+  const { kind = SpanKind.INTERNAL, attributes, captureArgs, recordDuration } = options;
+  const spanOptions = { kind, attributes: { ...attributes, ...capturedAttributes(captureArgs, args) } };
+
+  const durationRecorder = (startTime: number) => (failed: boolean) => {
+    if (!recordDuration) return;
+    durationHistogram(recordDuration === true ? DEFAULT_DURATION_METRIC : recordDuration).record(
+      Date.now() - startTime,
+      { operation: name, status: failed ? 'error' : 'ok' }
+    );
+  };
+
+  if (lazy) {
+    const parentContext = context.active();
+    const generator = call() as Generator | AsyncGenerator;
+    return traceGenerator(generator, () => {
+      const span = getTracer().startSpan(name, spanOptions, parentContext);
+      return {
+        spanContext: trace.setSpan(parentContext, span),
+        finish: spanFinisher(span, durationRecorder(Date.now())),
+      };
+    }) as R;
+  }
+
+  const startTime = Date.now();
+  return getTracer().startActiveSpan(name, spanOptions, (span) =>
+    runInSpan(span, call, durationRecorder(startTime))
+  );
+}
+
+/**
+ * (Async) generator running each step in the span's context, ending the span when it
+ * finishes. `begin` provides the span on the first step.
+ */
+function traceGenerator<T, R, N>(
+  generator: Generator<T, R, N> | AsyncGenerator<T, R, N>,
+  begin: () => SpanScope
+): Generator<T, R, N> | AsyncGenerator<T, R, N> {
+  return isAsyncGenerator(generator)
+    ? traceAsyncGenerator(generator, begin)
+    : traceSyncGenerator(generator, begin);
+}
+
+function traceSyncGenerator<T, R, N>(
+  generator: Generator<T, R, N>,
+  begin: () => SpanScope
+): Generator<T, R, N> {
+  let scope: SpanScope | undefined;
+  const step = (advance: () => IteratorResult<T, R>) => {
+    const { spanContext, finish } = (scope ??= begin());
+    try {
+      const result = context.with(spanContext, advance);
+      if (result.done) finish(false);
+      return result;
+    } catch (error) {
+      finish(true, error);
+      throw error;
+    }
+  };
+
+  return {
+    next: (...args: [] | [N]) => step(() => generator.next(...args)),
+    return: (value: R) => step(() => generator.return(value)),
+    throw: (error: unknown) => step(() => generator.throw(error)),
+    [Symbol.iterator]() {
+      return this;
+    },
+  } as Generator<T, R, N>;
+}
+
+function traceAsyncGenerator<T, R, N>(
+  generator: AsyncGenerator<T, R, N>,
+  begin: () => SpanScope
+): AsyncGenerator<T, R, N> {
+  let scope: SpanScope | undefined;
+  const step = async (advance: () => Promise<IteratorResult<T, R>>) => {
+    const { spanContext, finish } = (scope ??= begin());
+    try {
+      const result = await context.with(spanContext, advance);
+      if (result.done) finish(false);
+      return result;
+    } catch (error) {
+      finish(true, error);
+      throw error;
+    }
+  };
+
+  return {
+    next: (...args: [] | [N]) => step(() => generator.next(...args)),
+    return: (value: R) => step(() => generator.return(value)),
+    throw: (error: unknown) => step(() => generator.throw(error)),
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  } as AsyncGenerator<T, R, N>;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+export function recordFailure(span: Span, error: unknown): void {
+  span.recordException(redactError(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: redactString(error instanceof Error ? error.message : String(error)),
+  });
+}
+
+function capturedAttributes<A extends unknown[]>(
+  captureArgs: TracedOptions<A>['captureArgs'],
+  args: A
+): Attributes {
+  if (!captureArgs) return {};
+
+  const captured =
+    typeof captureArgs === 'function'
+      ? captureArgs(...args)
+      : Object.fromEntries(Object.entries(captureArgs).map(([index, name]) => [name, args[Number(index)]]));
+
+  const attributes: Attributes = {};
+  for (const [name, value] of Object.entries(captured)) {
+    if (value === undefined || value === null) continue;
+
+    const redacted = redactObject(value, name);
+    attributes[name] =
+      typeof redacted === 'string' || typeof redacted === 'number' || typeof redacted === 'boolean'
+        ? redacted
+        : stringify(redacted);
+  }
+  return attributes;
+}
+
+function durationHistogram(name: string): Histogram {
+  const meter = getMeter('neoiq-foundation');
+  let byName = histograms.get(meter);
+  if (!byName) {
+    byName = new Map();
+    histograms.set(meter, byName);
+  }
+
+  let histogram = byName.get(name);
+  if (!histogram) {
+    histogram = meter.createHistogram(name, {
+      description: 'Duration of traced functions',
+      unit: 'ms',
+    });
+    byName.set(name, histogram);
+  }
+  return histogram;
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function className(self: unknown): string {
+  if (typeof self === 'function') return self.name;
+  return (self as object | undefined)?.constructor?.name ?? 'anonymous';
+}
+
+function isGeneratorFunction(fn: unknown): boolean {
+  const tag = Object.prototype.toString.call(fn);
+  return tag === '[object GeneratorFunction]' || tag === '[object AsyncGeneratorFunction]';
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+}
+
+function isGenerator(value: unknown): value is Generator {
+  return Object.prototype.toString.call(value) === '[object Generator]';
+}
+
+function isAsyncGenerator(value: unknown): value is AsyncGenerator {
+  return Object.prototype.toString.call(value) === '[object AsyncGenerator]';
+}
@@ -10,7 +10,15 @@
 // ============================================================================
 // STEP 1: Initialize OTEL (must be first, before other imports)
 // ============================================================================
-import { init, logger, getMeter, observabilityPlugin, createHttpClient, shutdown } from '../code-in-package';
+import {
+  init,
+  logger,
+  defineMetrics,
+  observabilityPlugin,
+  createHttpClient,
+  shutdown,
+  DURATION_BUCKETS_MS,
+} from '../code-in-package';
 
 // Initialize OpenTelemetry - sends metrics & traces to OTEL Collector → Groundcover
 init({
@@ -18,6 +26,10 @@ init({
   serviceVersion: '1.0.0',
   environment: process.env.NODE_ENV || 'development',
   // Uses OTEL_EXPORTER_OTLP_ENDPOINT env var, or defaults to cluster collector
+  metricViews: [
+    { instrument: 'http.*.request.duration', buckets: DURATION_BUCKETS_MS },
+    { instrument: 'nlq.query.duration', buckets: DURATION_BUCKETS_MS },
+  ],
 });
 
 // ============================================================================
@@ -53,20 +65,30 @@ const dataFetcherClient = createHttpClient({
 // ============================================================================
 // STEP 5: Add custom business metrics (optional)
 // ============================================================================
-const meter = getMeter('canvas-weaver', '1.0.0');
-
-// Custom counters
-const reportCreatedCounter = meter.createCounter('reports.created.total', {
-  description: 'Total number of reports created',
-});
-const feedbackCounter = meter.createCounter('feedback.submitted.total', {
-  description: 'Total number of feedback submissions',
-});
-
-// Custom histograms
-const nlqLatency = meter.createHistogram('nlq.query.duration', {
-  description: 'NLQ query processing time in ms',
-  unit: 'ms',
+const metrics = defineMetrics('canvas-weaver', {
+  reportsCreated: {
+    type: 'counter',
+    name: 'reports.created.total',
+    legacyName: true, // Existing dashboards query this name
+    description: 'Total number of reports created',
+    unit: '{report}',
+    labels: { type: ['standard', 'custom'] },
+  },
+  feedbackSubmitted: {
+    type: 'counter',
+    name: 'feedback.submitted.total',
+    legacyName: true,
+    description: 'Total number of feedback submissions',
+    unit: '{feedback}',
+    labels: { type: { maxValues: 20 } },
+  },
+  nlqDuration: {
+    type: 'histogram',
+    name: 'nlq.query.duration',
+    description: 'NLQ query processing time',
+    unit: 'ms',
+    labels: { status: ['success', 'error'] },
+  },
 });
 
 // ============================================================================
@@ -88,11 +110,11 @@ app.post('/api/v1/reports', async (request, reply) => {
     logger.debug({ valid: authResponse.data.valid }, 'Token validated');
 
     // Record custom metric
-    reportCreatedCounter.add(1, { type: 'standard' });
+    metrics.reportsCreated.add(1, { type: 'standard' });
 
     return { id: 'report-123', created: true };
   } catch (error: any) {
-    logger.error({ error: error.message }, 'Failed to create report');
+    logger.error(error, 'Failed to create report');
     reply.status(500).send({ error: 'Failed to create report' });
   }
 });
@@ -101,7 +123,7 @@ app.post('/api/v1/ui-store/chat-feedback', async (request, reply) => {
   const { feedbackType } = request.body as any;
 
   // Record feedback metric
-  feedbackCounter.add(1, { type: feedbackType });
+  metrics.feedbackSubmitted.add(1, { type: feedbackType });
 
   logger.info({ feedbackType }, 'Feedback submitted');
 
@@ -113,20 +135,22 @@ app.post('/api/v1/nlq', async (request, reply) => {
 
   try {
     // Call data-fetcher (trace context is propagated automatically)
-    const response = await dataFetcherClient.post('/api/nlq', request.body);
+    const response = await dataFetcherClient.post('/api/nlq', request.body, {
+      neoiq: { operation: 'nlq.query' },
+    });
 
     // Record latency
     const durationMs = Date.now() - startTime;
-    nlqLatency.record(durationMs, { status: 'success' });
+    metrics.nlqDuration.record(durationMs, { status: 'success' });
 
     logger.info({ durationMs }, 'NLQ query completed');
 
     return response.data;
   } catch (error: any) {
     const durationMs = Date.now() - startTime;
-    nlqLatency.record(durationMs, { status: 'error' });
+    metrics.nlqDuration.record(durationMs, { status: 'error' });
 
-    logger.error({ error: error.message, durationMs }, 'NLQ query failed');
+    logger.error({ err: error, durationMs }, 'NLQ query failed');
     reply.status(500).send({ error: 'Query failed' });
   }
 });
@@ -138,16 +162,16 @@ const start = async () => {
   try {
     const port = Number(process.env.PORT) || 3000;
     await app.listen({ port, host: '0.0.0.0' });
-    logger.info({ port }, `Server started on port ${port}`);
+    logger.info({ port }, 'Server started on port %d', port);
   } catch (error) {
-    logger.error({ error }, 'Failed to start server');
+    logger.fatal(error as Error, 'Failed to start server');
     process.exit(1);
   }
 };
 
 // Graceful shutdown - flush pending telemetry
 const gracefulShutdown = async () => {
-  logger.info({}, 'Shutting down...');
+  logger.info('Shutting down...');
   await app.close();
   await shutdown(); // Flush OTEL data
   process.exit(0);